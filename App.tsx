@@ -1,35 +1,87 @@
 
 import React, { useState, useEffect } from 'react';
-import { AppMode, PetState, PetStage, DailyStats, WordEntry, ReviewMode } from './types';
+import { AppMode, PetState, PetStage, DailyStats, WordEntry, ReviewMode, ActiveReviewSession } from './types';
 import Dictionary from './components/Dictionary';
 import ReviewSession from './components/ReviewSession';
 import PetNode from './components/PetNode';
 import PetProfile from './components/PetProfile';
 import Notebook from './components/Notebook';
+import StatsDashboard from './components/StatsDashboard';
+import AudioLesson from './components/AudioLesson';
+import MigrationRecovery from './components/MigrationRecovery';
 import { 
   getWords, 
+  getSettings,
+  saveSettings,
   getPetState, 
   savePetState, 
   getDailyStats, 
-  updateDailyStats 
+  updateDailyStats,
+  getActiveSession,
+  saveActiveSession,
+  discardActiveSession,
+  finishActiveSession,
+  INITIAL_PET
 } from './services/storageService';
+import { MigrationError } from './services/migrations';
+import { compactReviewLog, getReviewEvents } from './services/reviewLog';
+import { resumeQueue } from './services/enrichmentQueue';
+import { buildReviewQueue, nextDueDate } from './services/reviewQueue';
+import { formatInterval } from './services/schedulerService';
+import { inDeck, listDecks } from './services/decks';
 import { generatePetReaction, generatePostcard, generatePetSprite } from './services/geminiService';
-import { Book, Search, Home, Trophy, Image as ImageIcon, User, Plane, Egg } from 'lucide-react';
+import { Book, Search, Home, Trophy, Image as ImageIcon, User, Plane, Egg, Loader2, Headphones } from 'lucide-react';
 
 const App: React.FC = () => {
   const [mode, setMode] = useState<AppMode>(AppMode.HOME);
-  const [pet, setPet] = useState<PetState>(getPetState());
-  const [stats, setStats] = useState<DailyStats>(getDailyStats());
+  const [isLoaded, setIsLoaded] = useState(false);
+  const [migrationError, setMigrationError] = useState<MigrationError | null>(null);
+  const [pet, setPet] = useState<PetState>(INITIAL_PET);
+  const [stats, setStats] = useState<DailyStats>({ date: new Date().toISOString().split('T')[0], wordsAdded: 0, reviewSessionDone: false });
   const [reviewWords, setReviewWords] = useState<WordEntry[]>([]);
-  const [reviewMode, setReviewMode] = useState<ReviewMode>('active');
+  const [lessonWords, setLessonWords] = useState<WordEntry[]>([]);
+  const [decks, setDecks] = useState<string[]>([]);
+  const [reviewDeck, setReviewDeck] = useState(''); // '' reviews every deck
+  const [activeSession, setActiveSession] = useState<ActiveReviewSession | null>(null);
   const [showPostcard, setShowPostcard] = useState<string | null>(null);
   const [showFarewell, setShowFarewell] = useState(false);
 
   // --- Initialization ---
+  // Decks of the language being learned; a saved deck that no longer has words falls back to all
+  const loadDecks = async () => {
+    const settings = await getSettings();
+    const names = listDecks((await getWords()).filter(w => w.language === settings.targetLanguage));
+    setDecks(names);
+    setReviewDeck(names.includes(settings.reviewDeck) ? settings.reviewDeck : '');
+  };
+
+  const loadData = () =>
+    Promise.all([getPetState(), getDailyStats(), getActiveSession()])
+      .then(([storedPet, currentStats, session]) => {
+        setPet(storedPet);
+        setStats(currentStats);
+        setActiveSession(session || null);
+      })
+      .catch(e => {
+        console.error("Failed to load saved data", e);
+        if (e instanceof MigrationError) setMigrationError(e);
+        else alert("无法读取本地数据，请检查浏览器存储设置");
+      })
+      .finally(() => setIsLoaded(true));
+
   useEffect(() => {
-    const currentStats = getDailyStats();
-    setStats(currentStats);
-    
+    loadData().then(() => compactReviewLog()).catch(e => console.warn("Review log compaction failed", e));
+    resumeQueue().catch(e => console.warn("Failed to resume word import", e));
+  }, []);
+
+  // Decks change from the Notebook and the target language from the profile
+  useEffect(() => {
+    if (mode === AppMode.HOME) loadDecks().catch(e => console.warn("Failed to load decks", e));
+  }, [mode]);
+
+  useEffect(() => {
+    if (!isLoaded) return;
+
     if (pet.isTraveling && pet.travelReturnTime && Date.now() > pet.travelReturnTime) {
       handlePetReturn();
     }
@@ -43,49 +95,129 @@ const App: React.FC = () => {
             }
         });
     }
-  }, [pet.stage, pet.isTraveling, pet.cycle]);
+  }, [isLoaded, pet.stage, pet.isTraveling, pet.cycle]);
 
   // --- Logic: Prepare Reviews ---
-  const startReview = (type: 'new' | 'due') => {
-    const allWords = getWords();
+  const startReview = async (type: 'new' | 'due', deck: string = reviewDeck) => {
+    if (activeSession && !confirm("还有未完成的复习，要放弃它并开始新的吗？")) return;
+
+    // Reviews only cover the notebook for the language currently being learned
+    const { targetLanguage, brainGymMode, dailyNewLimit, dailyReviewLimit } = await getSettings();
+    const allWords = (await getWords()).filter(w => w.language === targetLanguage && inDeck(w, deck));
     const today = new Date().toISOString().split('T')[0];
     
     let selection: WordEntry[] = [];
+    let reviewMode: ReviewMode;
     
     if (type === 'new') {
         selection = allWords.filter(w => {
             const d = new Date(w.addedAt).toISOString().split('T')[0];
             return d === today;
         });
-        setReviewMode('passive'); 
+        reviewMode = 'passive';
     } else {
-        // Brain Gym: Due words or random if none due
-        selection = allWords.filter(w => w.nextReviewDate <= Date.now() && w.reviewLevel > 0);
-        if (selection.length === 0) {
-             // Fallback for demo: Grab random existing words
-             selection = allWords.filter(w => w.reviewLevel > 0).sort(() => 0.5 - Math.random()).slice(0, 5);
-        }
-        setReviewMode('active');
+        // Brain Gym: due reviews plus today's share of new words
+        const todaysEvents = await getReviewEvents(Date.parse(today));
+        selection = buildReviewQueue(allWords, todaysEvents, { newPerDay: dailyNewLimit, reviewsPerDay: dailyReviewLimit });
+        reviewMode = brainGymMode;
     }
 
     if (selection.length === 0 && type === 'new') {
-        alert("No new words added today to review. Go add some!");
+        alert(deck ? `No new words added to "${deck}" today.` : "No new words added today to review. Go add some!");
         return;
     }
     
     if (selection.length === 0 && type === 'due') {
-        alert("No words available for Brain Gym. Search words in Dictionary first!");
+        if (allWords.length === 0) {
+            alert(deck ? `The "${deck}" deck has no words yet.` : "No words available for Brain Gym. Search words in Dictionary first!");
+        } else {
+            const nextDue = nextDueDate(allWords);
+            alert(nextDue && nextDue > Date.now()
+                ? `All caught up! Next review in ${formatInterval(nextDue - Date.now())}.`
+                : "Daily limit reached. Come back tomorrow, or raise the limits in your profile.");
+        }
         return;
     }
 
+    const now = Date.now();
+    const session: ActiveReviewSession = {
+        id: crypto.randomUUID(),
+        mode: reviewMode,
+        wordIds: selection.map(w => w.id),
+        currentIndex: 0,
+        answers: [],
+        relearnSteps: {},
+        startedAt: now,
+        updatedAt: now,
+        deck: deck || undefined,
+    };
+    await saveActiveSession(session);
+    setActiveSession(session);
     setReviewWords(selection);
     setMode(AppMode.REVIEW);
   };
 
+  // Audio lesson: today's new words, then the Brain Gym queue, as one playlist
+  const startAudioLesson = async () => {
+    const { targetLanguage, dailyNewLimit, dailyReviewLimit } = await getSettings();
+    const allWords = (await getWords()).filter(w => w.language === targetLanguage && inDeck(w, reviewDeck));
+    const today = new Date().toISOString().split('T')[0];
+    const todaysEvents = await getReviewEvents(Date.parse(today));
+    const added = allWords.filter(w => new Date(w.addedAt).toISOString().split('T')[0] === today);
+    const queue = buildReviewQueue(allWords, todaysEvents, { newPerDay: dailyNewLimit, reviewsPerDay: dailyReviewLimit });
+    const addedIds = new Set(added.map(w => w.id));
+    const playlist = [...added, ...queue.filter(w => !addedIds.has(w.id))];
+
+    if (playlist.length === 0) {
+        alert(allWords.length === 0 ? "No words yet. Search words in Dictionary first!" : "Nothing to listen to today. You're all caught up!");
+        return;
+    }
+    setLessonWords(playlist);
+    setMode(AppMode.AUDIO_LESSON);
+  };
+
+  const handleReviewDeckChange = async (deck: string) => {
+    setReviewDeck(deck);
+    await saveSettings({ reviewDeck: deck });
+  };
+
+  // Picks a saved session back up; words deleted since are dropped from the queue
+  const resumeReview = async () => {
+    if (!activeSession) return;
+    const byId = new Map((await getWords()).map(w => [w.id, w]));
+    const queue = activeSession.wordIds.map(id => byId.get(id)).filter((w): w is WordEntry => !!w);
+    const missingBefore = activeSession.wordIds.slice(0, activeSession.currentIndex).filter(id => !byId.has(id)).length;
+    // A card answered right before the reload counts as done
+    const answeredCurrent = activeSession.answers.some(a => a.index === activeSession.currentIndex);
+    const currentIndex = activeSession.currentIndex - missingBefore + (answeredCurrent ? 1 : 0);
+
+    const session = { ...activeSession, wordIds: queue.map(w => w.id), currentIndex };
+    if (currentIndex >= queue.length) {
+        setActiveSession(session);
+        handleReviewComplete(50, session);
+        return;
+    }
+    await saveActiveSession(session);
+    setActiveSession(session);
+    setReviewWords(queue);
+    setMode(AppMode.REVIEW);
+  };
+
+  const discardReview = async () => {
+    if (!confirm("放弃这次未完成的复习？已完成的卡片会保留。")) return;
+    await discardActiveSession();
+    setActiveSession(null);
+  };
+
+  const handleReviewExit = async () => {
+    setMode(AppMode.HOME);
+    setActiveSession((await getActiveSession()) || null);
+  };
+
   // --- Logic: Pet Updates ---
   const updatePet = (newPet: PetState) => {
     setPet(newPet);
-    savePetState(newPet);
+    savePetState(newPet).catch(e => console.error("Failed to save pet", e));
   };
 
   const handlePetReturn = async () => {
@@ -146,7 +278,7 @@ const App: React.FC = () => {
           const newImg = await generatePetSprite(newStage);
           const newUrls = { ...pet.imageUrls, [newStage]: newImg };
           const reaction = await generatePetReaction({ ...pet, stage: newStage }, stats, 'evolving');
-          updatePet({ ...pet, stage: newStage, dailyQuote: reaction.text, mood: reaction.mood as any, imageUrls: newUrls });
+          updatePet({ ...pet, stage: newStage, dailyQuote: reaction.text, mood: reaction.mood, imageUrls: newUrls });
       }
   };
 
@@ -154,27 +286,41 @@ const App: React.FC = () => {
       const newXp = pet.xp + 10;
       updatePet({ ...pet, xp: newXp });
       checkPetEvolution();
-      setStats(getDailyStats());
+      setStats(await getDailyStats());
   };
 
-  const handleReviewComplete = async (xp: number) => {
-      const newXp = pet.xp + xp;
-      updatePet({ ...pet, xp: newXp });
-      updateDailyStats({ reviewSessionDone: true });
-      setStats(getDailyStats());
-      checkPetEvolution();
+  const handleReviewComplete = async (xp: number, session = activeSession) => {
       setMode(AppMode.HOME);
+      setActiveSession(null);
+      if (!session) return;
+      // Paid in the same write that closes the session; 0 if it was already paid
+      const granted = await finishActiveSession(session.id, xp);
+      if (!granted) return;
+      const rewarded = { ...pet, xp: pet.xp + granted };
+      setPet(rewarded);
+      setStats(await updateDailyStats({ reviewSessionDone: true }));
+      checkPetEvolution();
 
-      const reaction = await generatePetReaction(pet, stats, 'completed_task');
-      updatePet({ ...pet, dailyQuote: reaction.text, mood: reaction.mood as any });
+      const reaction = await generatePetReaction(rewarded, stats, 'completed_task');
+      updatePet({ ...rewarded, dailyQuote: reaction.text, mood: reaction.mood });
   };
 
   // --- Render ---
+  if (migrationError) return <MigrationRecovery error={migrationError} />;
+
+  if (!isLoaded) {
+    return (
+      <div className="h-full w-full flex items-center justify-center bg-brand-50">
+        <Loader2 className="w-10 h-10 text-brand-400 animate-spin" />
+      </div>
+    );
+  }
+
   return (
     <div className="h-full w-full flex flex-col bg-brand-50 text-gray-800 font-sans">
         
-        {/* Top Bar (Hidden in Notebook mode for cleaner look) */}
-        {mode !== AppMode.NOTEBOOK && (
+        {/* Top Bar (Hidden in Notebook/Stats mode for cleaner look) */}
+        {mode !== AppMode.NOTEBOOK && mode !== AppMode.STATS && (
             <header className="pt-4 pb-2 px-6 flex justify-between items-center z-20 relative">
                 <div className="flex items-center gap-2">
                     {pet.stage === PetStage.ADULT ? (
@@ -219,6 +365,35 @@ const App: React.FC = () => {
                          </button>
                      )}
 
+                     {/* Unfinished session */}
+                     {activeSession && (
+                        <div className="mb-4 bg-white rounded-3xl p-4 shadow-sm border border-brand-200 flex items-center justify-between gap-3 relative z-20">
+                            <div>
+                                <h3 className="font-bold text-gray-800">Unfinished {activeSession.mode === 'passive' ? 'Daily Review' : 'Brain Gym'}{activeSession.deck && ` · ${activeSession.deck}`}</h3>
+                                <p className="text-xs text-gray-400">{Math.min(activeSession.currentIndex, activeSession.wordIds.length)}/{activeSession.wordIds.length} cards done</p>
+                            </div>
+                            <div className="flex gap-2">
+                                <button onClick={discardReview} className="px-3 py-2 rounded-xl text-xs font-bold text-gray-400 hover:text-red-400">Discard</button>
+                                <button onClick={resumeReview} className="px-4 py-2 rounded-xl bg-brand-500 text-white text-xs font-bold shadow">Resume</button>
+                            </div>
+                        </div>
+                     )}
+
+                     {/* Deck scope for the cards below */}
+                     {decks.length > 0 && (
+                        <div className="flex gap-2 mb-3 overflow-x-auto relative z-20">
+                            {['', ...decks].map(deck => (
+                                <button
+                                  key={deck || 'all'}
+                                  onClick={() => handleReviewDeckChange(deck)}
+                                  className={`px-3 py-1 rounded-full text-xs font-bold whitespace-nowrap transition-colors ${reviewDeck === deck ? 'bg-brand-500 text-white' : 'bg-white text-gray-500 border border-brand-100 hover:bg-brand-50'}`}
+                                >
+                                  {deck || 'All words'}
+                                </button>
+                            ))}
+                        </div>
+                     )}
+
                      {/* Action Cards */}
                      <div className="grid grid-cols-2 gap-4 mb-6 relative z-20">
                         <button 
@@ -244,6 +419,19 @@ const App: React.FC = () => {
                         </button>
                      </div>
 
+                     <button
+                        onClick={startAudioLesson}
+                        className="mb-6 w-full bg-white rounded-3xl p-4 shadow-sm hover:shadow-md transition-all border border-brand-100 flex items-center gap-3 text-left relative z-20 group"
+                     >
+                        <div className="bg-brand-100 w-10 h-10 rounded-2xl flex items-center justify-center text-brand-600 group-hover:scale-110 transition-transform">
+                            <Headphones size={20} />
+                        </div>
+                        <div>
+                            <h3 className="font-bold text-gray-800">Audio Lesson</h3>
+                            <p className="text-xs text-gray-400">Hands-free listening, works with the screen off</p>
+                        </div>
+                     </button>
+
                      {/* Travel Memories Mini View */}
                      {pet.postcardCollection.length > 0 && (
                         <div className="bg-white rounded-3xl p-5 shadow-sm border border-brand-50 mt-auto">
@@ -265,13 +453,19 @@ const App: React.FC = () => {
 
             {mode === AppMode.PET_PROFILE && (
                 <div className="h-full flex flex-col animate-pop">
-                    <PetProfile pet={pet} onOpenNotebook={() => setMode(AppMode.NOTEBOOK)} />
+                    <PetProfile pet={pet} onOpenNotebook={() => setMode(AppMode.NOTEBOOK)} onOpenStats={() => setMode(AppMode.STATS)} onDataRestored={loadData} />
                 </div>
             )}
 
             {mode === AppMode.NOTEBOOK && (
                  <div className="h-full flex flex-col animate-pop">
-                    <Notebook onBack={() => setMode(AppMode.PET_PROFILE)} />
+                    <Notebook onBack={() => setMode(AppMode.PET_PROFILE)} onWordAdded={handleWordAdded} />
+                 </div>
+            )}
+
+            {mode === AppMode.STATS && (
+                 <div className="h-full flex flex-col animate-pop">
+                    <StatsDashboard onBack={() => setMode(AppMode.PET_PROFILE)} />
                  </div>
             )}
 
@@ -281,15 +475,23 @@ const App: React.FC = () => {
                 </div>
             )}
 
+            {mode === AppMode.AUDIO_LESSON && (
+                <div className="h-full flex flex-col animate-pop">
+                     <AudioLesson words={lessonWords} onExit={() => setMode(AppMode.HOME)} />
+                </div>
+            )}
+
             {mode === AppMode.REVIEW && (
                 <div className="h-full flex flex-col animate-pop">
-                     <ReviewSession words={reviewWords} mode={reviewMode} onComplete={handleReviewComplete} />
+                     {activeSession && (
+                        <ReviewSession words={reviewWords} session={activeSession} onComplete={xp => handleReviewComplete(xp)} onExit={handleReviewExit} />
+                     )}
                 </div>
             )}
         </main>
 
-        {/* Bottom Navigation Dock (Hidden in Notebook/Review for immersion) */}
-        {mode !== AppMode.NOTEBOOK && mode !== AppMode.REVIEW && (
+        {/* Bottom Navigation Dock (Hidden in Notebook/Stats/Review/Audio Lesson for immersion) */}
+        {mode !== AppMode.NOTEBOOK && mode !== AppMode.STATS && mode !== AppMode.REVIEW && mode !== AppMode.AUDIO_LESSON && (
             <nav className="bg-white border-t border-gray-100 px-6 py-3 flex justify-around items-center pb-safe shadow-[0_-4px_20px_rgba(0,0,0,0.03)] z-30">
                 <button 
                     onClick={() => setMode(AppMode.HOME)}
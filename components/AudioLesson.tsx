@@ -0,0 +1,205 @@
+import React, { useState, useEffect, useRef, useMemo } from 'react';
+import { Play, Pause, SkipBack, SkipForward, Headphones } from 'lucide-react';
+import { WordEntry } from '../types';
+import { getSettings, DEFAULT_SETTINGS } from '../services/storageService';
+import { recordReview } from '../services/reviewLog';
+import { speakText, stopSpeaking } from '../services/speechOutput';
+import {
+  LessonStepKind, KeepAlive, buildLessonPlaylist, bindMediaSession, createKeepAlive, isMediaSessionSupported, pause, setNowPlaying,
+} from '../services/audioLesson';
+
+const STEP_LABELS: Record<LessonStepKind, string> = {
+  word: 'Word',
+  translation: 'Meaning',
+  example: 'Example',
+  recall: 'Recall...',
+  answer: 'Answer',
+};
+
+interface AudioLessonProps {
+  words: WordEntry[];
+  onExit: () => void;
+}
+
+interface Position {
+  track: number;
+  step: number;
+}
+
+/**
+ * Audio-only lesson: plays the queue as a playlist that keeps going with the
+ * screen off, controlled from here or from the lock screen.
+ */
+const AudioLesson: React.FC<AudioLessonProps> = ({ words, onExit }) => {
+  const [settings, setSettings] = useState(DEFAULT_SETTINGS);
+  const [position, setPosition] = useState<Position>({ track: 0, step: 0 });
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [finished, setFinished] = useState(false);
+
+  const playlist = useMemo(() => buildLessonPlaylist(words, settings.nativeLanguage), [words, settings.nativeLanguage]);
+
+  const positionRef = useRef(position);
+  const runRef = useRef<AbortController | null>(null);
+  const keepAliveRef = useRef<KeepAlive | null>(null);
+  const mountedRef = useRef(true);
+  // Each word is logged as a listen once, however often it is replayed
+  const listenedRef = useRef(new Set<string>());
+
+  useEffect(() => {
+    getSettings().then(setSettings);
+    return () => {
+      mountedRef.current = false;
+      runRef.current?.abort();
+      stopSpeaking();
+      keepAliveRef.current?.release();
+    };
+  }, []);
+
+  const moveTo = (next: Position) => {
+    positionRef.current = next;
+    if (mountedRef.current) setPosition(next);
+  };
+
+  const halt = () => {
+    runRef.current?.abort();
+    runRef.current = null;
+    stopSpeaking();
+  };
+
+  // Plays from `from` to the end of the playlist unless halted first
+  const run = async (from: Position) => {
+    halt();
+    const controller = new AbortController();
+    runRef.current = controller;
+    const { signal } = controller;
+
+    for (let track = from.track; track < playlist.length; track++) {
+      const { word, steps } = playlist[track];
+      setNowPlaying(playlist[track], track, playlist.length, true);
+      for (let step = track === from.track ? from.step : 0; step < steps.length; step++) {
+        if (signal.aborted) return;
+        moveTo({ track, step });
+        const { text, language, pauseMs } = steps[step];
+        if (text) await speakText(text, language, settings, signal);
+        await pause(pauseMs, signal);
+      }
+      if (signal.aborted) return;
+      if (!listenedRef.current.has(word.id)) {
+        listenedRef.current.add(word.id);
+        recordReview(word.id, { mode: 'passive' }).catch(e => console.error("Failed to save review", e));
+      }
+    }
+
+    runRef.current = null;
+    keepAliveRef.current?.pause();
+    if (mountedRef.current) {
+      setIsPlaying(false);
+      setFinished(true);
+    }
+  };
+
+  const play = (from: Position = positionRef.current) => {
+    if (!playlist.length) return;
+    if (!keepAliveRef.current) keepAliveRef.current = createKeepAlive();
+    else keepAliveRef.current.resume();
+    setIsPlaying(true);
+    setFinished(false);
+    run(from);
+  };
+
+  const stop = () => {
+    halt();
+    keepAliveRef.current?.pause();
+    setIsPlaying(false);
+    const { track } = positionRef.current;
+    if (playlist[track]) setNowPlaying(playlist[track], track, playlist.length, false);
+  };
+
+  // Skipping keeps the current play/pause state
+  const jump = (track: number) => {
+    const next = { track: Math.max(0, Math.min(track, playlist.length - 1)), step: 0 };
+    if (runRef.current) {
+      run(next);
+    } else {
+      moveTo(next);
+      if (playlist[next.track]) setNowPlaying(playlist[next.track], next.track, playlist.length, false);
+    }
+  };
+
+  // Back restarts the current word unless it has only just started
+  const previous = () => {
+    const { track, step } = positionRef.current;
+    jump(step === 0 ? track - 1 : track);
+  };
+
+  // Lock-screen buttons call through a ref so they always see the latest state
+  const controlsRef = useRef({ play, pause: stop, next: () => jump(positionRef.current.track + 1), previous, stop: onExit });
+  controlsRef.current = { play, pause: stop, next: () => jump(positionRef.current.track + 1), previous, stop: onExit };
+
+  useEffect(() => bindMediaSession({
+    play: () => controlsRef.current.play(),
+    pause: () => controlsRef.current.pause(),
+    next: () => controlsRef.current.next(),
+    previous: () => controlsRef.current.previous(),
+    stop: () => controlsRef.current.stop(),
+  }), []);
+
+  const current = playlist[position.track];
+  const currentStep = current?.steps[position.step];
+
+  return (
+    <div className="flex flex-col h-full p-6">
+      <div className="flex justify-between items-center mb-4">
+          <span className="text-xs font-bold text-brand-400 uppercase tracking-wider">
+              Audio Lesson • {Math.min(position.track + 1, playlist.length)}/{playlist.length}
+          </span>
+          <span onClick={onExit} className="text-xs font-bold text-brand-400 uppercase tracking-wider cursor-pointer hover:text-red-400">Exit</span>
+      </div>
+
+      <div className="w-full bg-gray-100 h-3 rounded-full mb-6 overflow-hidden">
+        <div className="bg-brand-400 h-full transition-all duration-500" style={{ width: `${playlist.length ? (position.track / playlist.length) * 100 : 0}%` }} />
+      </div>
+
+      <div className="flex-1 bg-white rounded-[2rem] shadow-xl border border-gray-100 flex flex-col items-center justify-center text-center p-6">
+          <div className="w-16 h-16 rounded-full bg-brand-50 text-brand-500 flex items-center justify-center mb-6">
+              <Headphones size={32} />
+          </div>
+          {finished ? (
+              <>
+                  <h2 className="text-3xl font-black text-gray-800 mb-2">Lesson complete</h2>
+                  <p className="text-sm text-gray-400">{playlist.length} words played</p>
+              </>
+          ) : current && (
+              <>
+                  <h2 className="text-4xl font-black text-gray-800 mb-2">{current.word.word}</h2>
+                  <p className="text-lg font-medium text-gray-600 leading-snug mb-2">{current.word.translation || current.word.definition}</p>
+                  <p className="text-xs text-gray-400 italic mb-6">"{current.word.context}"</p>
+                  {isPlaying && currentStep && (
+                      <span className="text-xs font-bold text-brand-400 uppercase tracking-wider">{STEP_LABELS[currentStep.kind]}</span>
+                  )}
+              </>
+          )}
+          {!isMediaSessionSupported() && (
+              <p className="text-[10px] text-gray-300 mt-6">Lock-screen controls aren't available in this browser.</p>
+          )}
+      </div>
+
+      <div className="h-24 flex items-center justify-center gap-8 mt-4">
+          <button onClick={previous} title="Previous word" className="w-12 h-12 rounded-full bg-gray-100 text-gray-600 flex items-center justify-center">
+              <SkipBack size={20} fill="currentColor" />
+          </button>
+          <button
+            onClick={() => (isPlaying ? stop() : play(finished ? { track: 0, step: 0 } : positionRef.current))}
+            className={`w-20 h-20 rounded-full shadow-2xl border-4 border-white flex items-center justify-center ${isPlaying ? 'bg-brand-300 text-white' : 'bg-brand-500 text-white'}`}
+          >
+              {isPlaying ? <Pause size={32} fill="currentColor" /> : <Play size={36} fill="currentColor" className="ml-1" />}
+          </button>
+          <button onClick={() => jump(position.track + 1)} title="Next word" className="w-12 h-12 rounded-full bg-gray-100 text-gray-600 flex items-center justify-center">
+              <SkipForward size={20} fill="currentColor" />
+          </button>
+      </div>
+    </div>
+  );
+};
+
+export default AudioLesson;
@@ -0,0 +1,125 @@
+
+import React, { useRef, useState } from 'react';
+import { Download, Upload, Loader2, ShieldCheck } from 'lucide-react';
+import { BackupDiff, ParsedBackup, RestoreMode, diffBackup, downloadBackup, parseBackupFile, restoreBackup } from '../services/backupService';
+import { exportAllData } from '../services/storageService';
+
+interface BackupPanelProps {
+  onRestored: () => void;
+}
+
+const BackupPanel: React.FC<BackupPanelProps> = ({ onRestored }) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [isBusy, setIsBusy] = useState(false);
+  const [pending, setPending] = useState<{ backup: ParsedBackup; diff: BackupDiff } | null>(null);
+
+  const handleExport = async () => {
+    setIsBusy(true);
+    try {
+      await downloadBackup();
+    } catch (e: any) {
+      console.error("Backup export failed", e);
+      alert(e.message || "导出失败");
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleFileChosen = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    setIsBusy(true);
+    try {
+      const backup = await parseBackupFile(file);
+      const diff = diffBackup(await exportAllData(), backup.data);
+      setPending({ backup, diff });
+    } catch (err: any) {
+      console.error("Backup import failed", err);
+      alert(err.message || "导入失败");
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleRestore = async (mode: RestoreMode) => {
+    if (!pending) return;
+    if (mode === 'replace' && !confirm("替换会删除设备上现有的所有数据，确定继续吗？")) return;
+    setIsBusy(true);
+    try {
+      await restoreBackup(pending.backup.data, mode);
+      setPending(null);
+      onRestored();
+    } catch (err: any) {
+      console.error("Backup restore failed", err);
+      alert(err.message || "恢复失败");
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const diff = pending?.diff;
+
+  return (
+    <div className="bg-white p-6 rounded-3xl shadow-sm border border-brand-100 mb-6">
+      <h3 className="font-bold text-gray-800 mb-1 flex items-center gap-2">
+        <ShieldCheck size={18} className="text-brand-500"/> Backup & Restore
+      </h3>
+      <p className="text-xs text-gray-400 mb-4">Save your notebook, pet and history to a file, or bring them back.</p>
+      <div className="grid grid-cols-2 gap-3">
+        <button
+          onClick={handleExport}
+          disabled={isBusy}
+          className="py-3 rounded-xl bg-brand-500 text-white font-bold flex items-center justify-center gap-2 hover:bg-brand-600 disabled:opacity-50"
+        >
+          {isBusy ? <Loader2 size={16} className="animate-spin" /> : <Download size={16} />} Export
+        </button>
+        <button
+          onClick={() => fileInputRef.current?.click()}
+          disabled={isBusy}
+          className="py-3 rounded-xl bg-gray-50 text-gray-600 font-bold flex items-center justify-center gap-2 hover:bg-brand-50 disabled:opacity-50"
+        >
+          <Upload size={16} /> Import
+        </button>
+        <input ref={fileInputRef} type="file" accept="application/json,.json" className="hidden" onChange={handleFileChosen} />
+      </div>
+
+      {pending && diff && (
+        <div className="fixed inset-0 z-50 bg-black/60 backdrop-blur-sm flex items-center justify-center p-6 animate-pop">
+          <div className="bg-white rounded-3xl shadow-2xl max-w-md w-full p-6">
+            <h3 className="text-xl font-black text-gray-800 mb-1">Restore backup?</h3>
+            <p className="text-xs text-gray-400 mb-4">Exported {new Date(pending.backup.exportedAt).toLocaleString()}</p>
+
+            <ul className="text-sm text-gray-600 space-y-2 mb-6">
+              <li><span className="font-bold text-teal-600">{diff.wordsAdded}</span> new words</li>
+              <li><span className="font-bold text-brand-600">{diff.wordsUpdated}</span> words with newer progress in the backup</li>
+              <li><span className="font-bold text-gray-700">{diff.wordsKept}</span> words already up to date on this device</li>
+              <li><span className="font-bold text-coral-500">{diff.wordsOnlyOnDevice}</span> words only on this device (removed by Replace)</li>
+              <li><span className="font-bold text-gray-700">{diff.statsDays}</span> days of history, <span className="font-bold text-gray-700">{diff.reviewEvents}</span> logged reviews, <span className="font-bold text-gray-700">{diff.postcardsAdded}</span> new postcards</li>
+              {diff.incomingPet && (
+                <li>
+                  Pet: <span className="font-bold">{diff.incomingPet.name}</span> ({diff.incomingPet.xp} XP, cycle {diff.incomingPet.cycle})
+                  {diff.localPet && <span className="text-gray-400"> vs. {diff.localPet.name} ({diff.localPet.xp} XP)</span>}
+                </li>
+              )}
+            </ul>
+
+            <div className="grid grid-cols-3 gap-2">
+              <button onClick={() => setPending(null)} disabled={isBusy} className="py-3 rounded-xl bg-gray-50 text-gray-500 font-bold disabled:opacity-50">
+                Cancel
+              </button>
+              <button onClick={() => handleRestore('merge')} disabled={isBusy} className="py-3 rounded-xl bg-brand-500 text-white font-bold disabled:opacity-50">
+                Merge
+              </button>
+              <button onClick={() => handleRestore('replace')} disabled={isBusy} className="py-3 rounded-xl bg-red-50 text-red-500 font-bold border border-red-100 disabled:opacity-50">
+                Replace
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default BackupPanel;
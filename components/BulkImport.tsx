@@ -0,0 +1,117 @@
+
+import React, { useEffect, useRef, useState } from 'react';
+import { ListPlus, Upload, Loader2, CheckCircle, AlertCircle, RotateCw, X } from 'lucide-react';
+import { EnrichmentJob } from '../types';
+import { clearFinished, enqueueWords, parseWordList, retryFailed, subscribeToQueue } from '../services/enrichmentQueue';
+
+interface BulkImportProps {
+  onClose: () => void;
+}
+
+const BulkImport: React.FC<BulkImportProps> = ({ onClose }) => {
+  const [text, setText] = useState('');
+  const [jobs, setJobs] = useState<EnrichmentJob[]>([]);
+  const [notice, setNotice] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => subscribeToQueue(setJobs), []);
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (file) setText(await file.text());
+  };
+
+  const handleEnqueue = async () => {
+    const { items, duplicates } = parseWordList(text);
+    if (items.length === 0) return;
+    const added = await enqueueWords(items);
+    const skipped = items.length - added + duplicates;
+    setNotice(`已加入 ${added} 个单词${skipped > 0 ? `，跳过 ${skipped} 个重复词` : ''}`);
+    setText('');
+  };
+
+  const done = jobs.filter(j => j.status === 'done').length;
+  const failed = jobs.filter(j => j.status === 'failed');
+  const active = jobs.filter(j => j.status === 'pending' || j.status === 'running').length;
+  const progress = jobs.length > 0 ? ((done + failed.length) / jobs.length) * 100 : 0;
+
+  return (
+    <div className="bg-white rounded-[2rem] p-6 shadow-xl border border-brand-100 animate-pop">
+      <div className="flex justify-between items-center mb-4">
+        <h3 className="font-black text-gray-800 flex items-center gap-2">
+          <ListPlus size={20} className="text-brand-500" /> Bulk Import
+        </h3>
+        <button onClick={onClose} className="text-gray-400 hover:text-gray-600">
+          <X size={20} />
+        </button>
+      </div>
+
+      <textarea
+        value={text}
+        onChange={(e) => setText(e.target.value)}
+        placeholder={"One word per line, or CSV:\nword,example sentence"}
+        rows={5}
+        className="w-full bg-gray-50 border border-gray-200 rounded-2xl p-4 text-sm font-bold text-gray-700 focus:outline-none focus:ring-2 focus:ring-brand-500/20 focus:bg-white"
+      />
+
+      <div className="flex gap-2 mt-3">
+        <button
+          onClick={() => fileInputRef.current?.click()}
+          className="px-4 py-3 rounded-xl bg-gray-50 text-gray-500 font-bold flex items-center gap-2 hover:bg-brand-50"
+        >
+          <Upload size={16} /> File
+        </button>
+        <input ref={fileInputRef} type="file" accept=".txt,.csv,.tsv,text/plain,text/csv" className="hidden" onChange={handleFile} />
+        <button
+          onClick={handleEnqueue}
+          disabled={!text.trim()}
+          className="flex-1 py-3 rounded-xl bg-brand-500 text-white font-bold hover:bg-brand-600 disabled:opacity-50"
+        >
+          Add to Queue
+        </button>
+      </div>
+
+      {notice && <p className="text-xs font-bold text-teal-600 mt-3">{notice}</p>}
+
+      {jobs.length > 0 && (
+        <div className="mt-6">
+          <div className="flex justify-between text-xs font-bold text-gray-500 mb-2">
+            <span className="flex items-center gap-1">
+              {active > 0 ? <Loader2 size={12} className="animate-spin text-brand-400" /> : <CheckCircle size={12} className="text-teal-500" />}
+              {done} / {jobs.length} enriched
+            </span>
+            {active === 0 && (
+              <button onClick={clearFinished} className="text-brand-400 hover:text-brand-600">Clear</button>
+            )}
+          </div>
+          <div className="w-full bg-gray-100 h-2 rounded-full overflow-hidden">
+            <div className="bg-brand-400 h-full transition-all duration-500" style={{ width: `${progress}%` }} />
+          </div>
+
+          {failed.length > 0 && (
+            <div className="mt-4 bg-red-50 border border-red-100 rounded-2xl p-4">
+              <div className="flex justify-between items-center mb-2">
+                <span className="text-xs font-black text-red-500 flex items-center gap-1">
+                  <AlertCircle size={12} /> {failed.length} failed
+                </span>
+                <button onClick={retryFailed} className="text-xs font-bold text-red-500 flex items-center gap-1 hover:text-red-600">
+                  <RotateCw size={12} /> Retry
+                </button>
+              </div>
+              <ul className="space-y-1 max-h-32 overflow-y-auto">
+                {failed.map(j => (
+                  <li key={j.id} className="text-xs text-gray-600">
+                    <span className="font-bold">{j.input}</span> <span className="text-gray-400">— {j.error}</span>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default BulkImport;
@@ -1,9 +1,14 @@
 
-import React, { useState } from 'react';
-import { Mic, Search, Loader2, CheckCircle, Sparkles, BrainCircuit } from 'lucide-react';
-import { queryDictionary, generateCardImage } from '../services/geminiService';
-import { saveWord, updateWord, updateDailyStats, getDailyStats } from '../services/storageService';
-import { WordEntry } from '../types';
+import React, { useState, useEffect } from 'react';
+import { Mic, Search, Loader2, CheckCircle, Sparkles, BrainCircuit, ListPlus, Database, WifiOff, BookOpen } from 'lucide-react';
+import { prefetchCardImages } from '../services/imageCache';
+import { AIResponseError } from '../services/aiSchemas';
+import { lookupWord, LookupResult, sensesOf, createEntryFromResult } from '../services/lookupCache';
+import { saveWord, updateDailyStats, getDailyStats, getSettings, DEFAULT_SETTINGS } from '../services/storageService';
+import { getLanguagePair } from '../services/languages';
+import { recognizeSpeech, SpeechInputError } from '../services/speechInput';
+import BulkImport from './BulkImport';
+import WordExtras, { SenseLabel } from './WordExtras';
 
 interface DictionaryProps {
   onWordAdded: () => void;
@@ -13,25 +18,29 @@ const Dictionary: React.FC<DictionaryProps> = ({ onWordAdded }) => {
   const [input, setInput] = useState('');
   const [isListening, setIsListening] = useState(false);
   const [isLoading, setIsLoading] = useState(false);
-  const [result, setResult] = useState<any | null>(null);
+  const [result, setResult] = useState<LookupResult | null>(null);
   const [added, setAdded] = useState(false);
+  const [linkedTo, setLinkedTo] = useState<string | null>(null);
+  const [savedSense, setSavedSense] = useState<number | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [showBulk, setShowBulk] = useState(false);
+  const [settings, setSettings] = useState(DEFAULT_SETTINGS);
+  const languages = getLanguagePair(settings);
 
-  const startListening = () => {
-    if (!('webkitSpeechRecognition' in window) && !('SpeechRecognition' in window)) {
-      alert("浏览器不支持语音识别");
-      return;
-    }
-    const SpeechRecognition = (window as any).SpeechRecognition || (window as any).webkitSpeechRecognition;
-    const recognition = new SpeechRecognition();
-    recognition.lang = 'en-US';
-    recognition.onstart = () => setIsListening(true);
-    recognition.onend = () => setIsListening(false);
-    recognition.onresult = (event: any) => {
-      const transcript = event.results[0][0].transcript;
+  useEffect(() => {
+    getSettings().then(setSettings);
+  }, []);
+
+  const startListening = async () => {
+    try {
+      const { transcript } = await recognizeSpeech(languages.target.locale, { maxAlternatives: 1, onStart: () => setIsListening(true) });
       setInput(transcript);
       handleSearch(transcript); 
-    };
-    recognition.start();
+    } catch (e) {
+      if (e instanceof SpeechInputError && (e.code === 'unsupported' || e.code === 'not-allowed')) alert(e.message);
+    } finally {
+      setIsListening(false);
+    }
   };
 
   const handleSearch = async (searchTerm: string = input) => {
@@ -39,58 +48,93 @@ const Dictionary: React.FC<DictionaryProps> = ({ onWordAdded }) => {
     setIsLoading(true);
     setResult(null);
     setAdded(false);
+    setLinkedTo(null);
+    setSavedSense(null);
     
     try {
-      const data = await queryDictionary(searchTerm);
-      if (data) {
-        setResult(data);
-        const newWord: WordEntry = {
-          id: crypto.randomUUID(),
-          word: data.identifiedWord,
-          definition: data.definition,
-          translation: data.translation,
-          context: data.example,
-          visualDescription: data.visualDescription, 
-          addedAt: Date.now(),
-          lastReviewedAt: null,
-          reviewLevel: 0,
-          reviewCount: 0,
-          nextReviewDate: Date.now(), 
-        };
-        saveWord(newWord);
-        
-        // 异步生成图片（不阻塞文本显示）
-        generateCardImage(newWord.word, newWord.context, newWord.visualDescription).then(imgUrl => {
-            updateWord(newWord.id, { 
-                todayImage: imgUrl, 
-                todayImageDate: new Date().toISOString().split('T')[0] 
-            });
-        });
-
-        const currentStats = getDailyStats();
-        updateDailyStats({ wordsAdded: (currentStats.wordsAdded || 0) + 1 });
-        
-        setAdded(true);
-        onWordAdded();
+      const lookup = await lookupWord(searchTerm, languages);
+      setResult(lookup);
+      // Words already in the notebook keep their progress; nothing to save.
+      // With several senses the learner picks which one to keep.
+      if (lookup.source !== 'notebook' && sensesOf(lookup.data).length === 1) {
+        await saveSense(lookup, 0);
       }
     } catch (error: any) {
       console.error("Dictionary error", error);
-      alert(error.message || "请求失败，请检查网络或 API 配置");
+      if (error instanceof AIResponseError) {
+        alert("AI 返回的释义不完整，请换个说法再试一次");
+      } else {
+        alert(error.message || "请求失败，请检查网络或 API 配置");
+      }
     } finally {
       setIsLoading(false);
     }
   };
 
+  const saveSense = async (lookup: LookupResult, senseIndex: number) => {
+    const newWord = createEntryFromResult(lookup.data, languages.target.code, senseIndex, { tagTopics: settings.suggestTags });
+    const saved = await saveWord(newWord);
+
+    // 异步生成图片写入缓存（不阻塞文本显示）
+    prefetchCardImages([saved]);
+
+    setAdded(true);
+    setSavedSense(senseIndex);
+
+    // Another form of a word already in the notebook: it joins that entry's schedule
+    if (saved.id !== newWord.id) {
+      setLinkedTo(saved.word);
+      return;
+    }
+
+    const currentStats = await getDailyStats();
+    await updateDailyStats({ wordsAdded: (currentStats.wordsAdded || 0) + 1 });
+    onWordAdded();
+  };
+
+  const handlePickSense = async (senseIndex: number) => {
+    if (!result || isSaving) return;
+    setIsSaving(true);
+    try {
+      await saveSense(result, senseIndex);
+    } catch (error: any) {
+      console.error("Save failed", error);
+      alert(error.message || "保存失败");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const senses = result ? sensesOf(result.data) : [];
+  const canPickSense = !!result && result.source !== 'notebook' && !added && senses.length > 1;
+  const isSavedSense = (i: number) =>
+    savedSense === i || (result?.source === 'notebook' && senses[i].definition === result.entry?.definition);
+
   return (
     <div className="flex flex-col h-full w-full px-6 py-4 overflow-y-auto bg-dot-pattern">
       
-      <div className="mb-6 animate-pop">
-        <h2 className="text-3xl font-extrabold text-brand-800 mb-1 flex items-center gap-2">
-            What's that? <Sparkles className="text-brand-400" size={24} />
-        </h2>
-        <p className="text-brand-600/80 font-medium">Type or speak to learn something new.</p>
+      <div className="mb-6 animate-pop flex justify-between items-start">
+        <div>
+            <h2 className="text-3xl font-extrabold text-brand-800 mb-1 flex items-center gap-2">
+                What's that? <Sparkles className="text-brand-400" size={24} />
+            </h2>
+            <p className="text-brand-600/80 font-medium">Type or speak to learn something new.</p>
+        </div>
+        <button 
+          onClick={() => setShowBulk(!showBulk)}
+          className={`p-3 rounded-xl transition-all ${showBulk ? 'bg-brand-500 text-white' : 'bg-white text-brand-400 hover:bg-brand-50 border border-brand-100'}`}
+          title="Bulk import"
+        >
+          <ListPlus size={20} />
+        </button>
       </div>
 
+      {showBulk && (
+        <div className="mb-6">
+            <BulkImport onClose={() => setShowBulk(false)} />
+        </div>
+      )}
+
       <div className="relative group z-10">
         <div className={`absolute -inset-1 bg-gradient-to-r from-brand-300 to-teal-200 rounded-2xl blur opacity-20 group-hover:opacity-40 transition duration-1000 ${isListening ? 'animate-pulse opacity-60' : ''}`}></div>
         <div className="relative flex items-center w-full bg-white rounded-2xl shadow-xl transition-all border border-brand-100/50 overflow-hidden">
@@ -99,7 +143,7 @@ const Dictionary: React.FC<DictionaryProps> = ({ onWordAdded }) => {
               value={input}
               onChange={(e) => setInput(e.target.value)}
               onKeyDown={(e) => e.key === 'Enter' && handleSearch()}
-              placeholder="Enter a word..."
+              placeholder={`Enter a ${languages.target.name} word...`}
               className="flex-1 bg-transparent pl-6 pr-2 py-5 outline-none text-xl text-gray-800 placeholder-gray-300 font-bold"
             />
             <button 
@@ -143,30 +187,70 @@ const Dictionary: React.FC<DictionaryProps> = ({ onWordAdded }) => {
                   <div className="flex justify-between items-start mb-6">
                     <div>
                         <h3 className="text-4xl font-black text-gray-900 capitalize tracking-tighter mb-1">
-                          {result.identifiedWord}
+                          {result.data.identifiedWord}
                         </h3>
+                        {result.data.lemma && result.data.lemma.toLowerCase() !== result.data.identifiedWord.toLowerCase() && (
+                            <p className="text-sm font-bold text-gray-400 mb-1">form of <span className="text-brand-500">{result.data.lemma}</span></p>
+                        )}
                         <div className="h-1 w-12 bg-brand-500 rounded-full"></div>
+                        {result.source === 'cache' && (
+                            <span className="inline-flex items-center gap-1 mt-3 bg-brand-50 text-brand-600 border border-brand-100 text-[10px] font-black uppercase tracking-widest px-2 py-1 rounded-full">
+                                <Database size={10} /> Cached
+                            </span>
+                        )}
+                        {result.source === 'offline-cache' && (
+                            <span className="inline-flex items-center gap-1 mt-3 bg-gray-100 text-gray-500 border border-gray-200 text-[10px] font-black uppercase tracking-widest px-2 py-1 rounded-full">
+                                <WifiOff size={10} /> Offline · saved {new Date(result.cachedAt!).toLocaleDateString()}
+                            </span>
+                        )}
+                        {result.source === 'notebook' && (
+                            <span className="inline-flex items-center gap-1 mt-3 bg-teal-50 text-teal-600 border border-teal-100 text-[10px] font-black uppercase tracking-widest px-2 py-1 rounded-full">
+                                <BookOpen size={10} /> From your notebook
+                            </span>
+                        )}
                     </div>
                     <span className="bg-teal-500 text-white text-sm font-black px-4 py-2 rounded-2xl shadow-sm">
-                        {result.translation}
+                        {senses[savedSense ?? 0]?.translation ?? result.data.translation}
                     </span>
                   </div>
 
+                  {canPickSense && (
+                    <p className="text-xs font-black text-brand-400 uppercase tracking-widest mb-3">Pick the meaning to save</p>
+                  )}
+
                   <div className="space-y-6">
-                    <div className="bg-gray-50/50 rounded-2xl p-4 border border-gray-100">
-                      <p className="text-xl text-gray-700 font-semibold leading-relaxed">{result.definition}</p>
-                    </div>
-                    
-                    <div className="bg-brand-50/30 p-6 rounded-2xl border border-brand-100/50 relative">
-                      <div className="absolute -top-3 left-6 bg-white px-3 py-1 rounded-full border border-brand-100 text-[10px] font-black text-brand-400 uppercase tracking-widest">Example</div>
-                      <p className="text-gray-800 italic font-bold text-lg">"{result.example}"</p>
-                    </div>
+                    {senses.map((sense, i) => (
+                      <div key={i} className={`space-y-3 ${senses.length > 1 ? `rounded-3xl p-3 border ${isSavedSense(i) ? 'border-teal-300 bg-teal-50/30' : 'border-gray-100'}` : ''}`}>
+                        <SenseLabel partOfSpeech={sense.partOfSpeech} ipa={sense.ipa} />
+                        <div className="bg-gray-50/50 rounded-2xl p-4 border border-gray-100">
+                          <p className="text-xl text-gray-700 font-semibold leading-relaxed">{sense.definition}</p>
+                          {senses.length > 1 && sense.translation && <p className="text-sm font-bold text-teal-600 mt-1">{sense.translation}</p>}
+                        </div>
+
+                        <div className="bg-brand-50/30 p-6 rounded-2xl border border-brand-100/50 relative">
+                          <div className="absolute -top-3 left-6 bg-white px-3 py-1 rounded-full border border-brand-100 text-[10px] font-black text-brand-400 uppercase tracking-widest">Example</div>
+                          <p className="text-gray-800 italic font-bold text-lg">"{sense.example}"</p>
+                        </div>
+
+                        {canPickSense && (
+                          <button
+                            onClick={() => handlePickSense(i)}
+                            disabled={isSaving}
+                            className="w-full py-3 rounded-2xl bg-brand-500 text-white font-black text-sm disabled:opacity-50"
+                          >
+                            Save this meaning
+                          </button>
+                        )}
+                      </div>
+                    ))}
+
+                    <WordExtras family={result.data.wordFamily} synonyms={result.data.synonyms} antonyms={result.data.antonyms} collocations={result.data.collocations} />
                   </div>
 
                   {added && (
                     <div className="mt-8 pt-6 border-t border-gray-100 flex items-center justify-center text-teal-600 font-black animate-bounce">
                       <CheckCircle size={24} className="mr-2" />
-                      Added to Memory
+                      {linkedTo ? `Linked to "${linkedTo}"` : 'Added to Memory'}
                     </div>
                   )}
               </div>
@@ -0,0 +1,60 @@
+import React, { useState } from 'react';
+import { AlertTriangle, Download, Loader2, RotateCw } from 'lucide-react';
+import { MigrationError } from '../services/migrations';
+import { downloadMigrationBackup } from '../services/backupService';
+
+interface MigrationRecoveryProps {
+  error: MigrationError;
+}
+
+/**
+ * Shown instead of the app when stored data couldn't be upgraded. Nothing has
+ * been changed at that point; the learner can save the pre-migration copy as a
+ * backup file and import it once a fixed version is out.
+ */
+const MigrationRecovery: React.FC<MigrationRecoveryProps> = ({ error }) => {
+  const [isBusy, setIsBusy] = useState(false);
+
+  const handleDownload = async () => {
+    setIsBusy(true);
+    try {
+      await downloadMigrationBackup();
+    } catch (e: any) {
+      console.error("Pre-migration backup export failed", e);
+      alert(e.message || "导出失败");
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  return (
+    <div className="h-full w-full flex items-center justify-center bg-brand-50 p-6">
+      <div className="bg-white rounded-3xl shadow-sm border border-brand-100 max-w-md w-full p-6">
+        <h3 className="text-xl font-black text-gray-800 mb-1 flex items-center gap-2">
+          <AlertTriangle size={20} className="text-coral-500" /> Couldn't upgrade your data
+        </h3>
+        <p className="text-sm text-gray-500 mb-1">{error.message}</p>
+        <p className="text-xs text-gray-400 mb-4">
+          Your words, pet and history are untouched. Save them as a backup file now; it can be imported from Backup & Restore once LingoPet is updated.
+        </p>
+        <div className="grid grid-cols-2 gap-3">
+          <button
+            onClick={handleDownload}
+            disabled={isBusy}
+            className="py-3 rounded-xl bg-brand-500 text-white font-bold flex items-center justify-center gap-2 hover:bg-brand-600 disabled:opacity-50"
+          >
+            {isBusy ? <Loader2 size={16} className="animate-spin" /> : <Download size={16} />} Save backup
+          </button>
+          <button
+            onClick={() => window.location.reload()}
+            className="py-3 rounded-xl bg-gray-50 text-gray-600 font-bold flex items-center justify-center gap-2 hover:bg-brand-50"
+          >
+            <RotateCw size={16} /> Try again
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default MigrationRecovery;
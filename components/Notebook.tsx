@@ -1,27 +1,238 @@
 
-import React, { useState, useEffect } from 'react';
-import { ArrowLeft, Search, Calendar, Zap, BookOpen, Clock, BarChart3 } from 'lucide-react';
+import React, { useState, useEffect, useRef } from 'react';
+import { ArrowLeft, Search, Calendar, Zap, BookOpen, Clock, BarChart3, Download, Upload, Loader2, Mic, Pencil, Trash2, GitMerge, Plus, Sparkles, RefreshCw, Undo2 } from 'lucide-react';
 import { WordEntry } from '../types';
-import { getWords } from '../services/storageService';
+import {
+  getWords, getSettings, saveWord, updateWord, deleteWord, restoreWord, mergeWords, createWordEntry, getDailyStats, updateDailyStats,
+  DeletedWord, DEFAULT_SETTINGS,
+} from '../services/storageService';
+import { getLanguage, getLanguagePair } from '../services/languages';
+import { regenerateWordContent } from '../services/lookupCache';
+import { getCachedCardImage, getCardImage } from '../services/imageCache';
+import { AIResponseError } from '../services/aiSchemas';
+import { NO_DECK, NotebookSort, hasTag, inDeck, listDecks, listTags, sortWords } from '../services/decks';
+import { downloadAnkiExport, importAnkiNotes } from '../services/ankiService';
+import { groupWordFamilies, wordForms } from '../services/wordFamilies';
+import { getRecordingUrl } from '../services/recordings';
+import WordExtras, { SenseLabel } from './WordExtras';
+import WordEditor, { WordContent } from './WordEditor';
+
+const SORT_OPTIONS: { value: NotebookSort; label: string }[] = [
+  { value: 'added', label: 'Newest' },
+  { value: 'level', label: 'Weakest' },
+  { value: 'due', label: 'Due soonest' },
+];
+
+// How long the undo button stays up after a delete
+const UNDO_MS = 6000;
+
+const ACTION_CLASS = "px-3 py-1.5 rounded-xl bg-white border border-gray-100 text-[10px] font-black text-gray-500 uppercase tracking-widest flex items-center gap-1 hover:text-brand-600 disabled:opacity-50";
 
 interface NotebookProps {
   onBack: () => void;
+  onWordAdded: () => void;
 }
 
-const Notebook: React.FC<NotebookProps> = ({ onBack }) => {
+const Notebook: React.FC<NotebookProps> = ({ onBack, onWordAdded }) => {
   const [words, setWords] = useState<WordEntry[]>([]);
   const [searchTerm, setSearchTerm] = useState('');
   const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [isTransferring, setIsTransferring] = useState(false);
+  const [settings, setSettings] = useState(DEFAULT_SETTINGS);
+  const [language, setLanguage] = useState(DEFAULT_SETTINGS.targetLanguage);
+  const [recordingUrl, setRecordingUrl] = useState<string | null>(null); // Speaking-drill recording of the expanded word
+  const [cardImage, setCardImage] = useState<string | null>(null); // Cached picture of the expanded word
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [isCreating, setIsCreating] = useState(false);
+  const [mergingId, setMergingId] = useState<string | null>(null); // Word whose "merge with" picker is open
+  const [regenerating, setRegenerating] = useState<{ id: string; what: 'definition' | 'image' } | null>(null);
+  const [lastDeleted, setLastDeleted] = useState<DeletedWord | null>(null);
+  const [deckFilter, setDeckFilter] = useState(''); // Deck name, NO_DECK, or '' for all
+  const [tagFilter, setTagFilter] = useState('');
+  const [sort, setSort] = useState<NotebookSort>('added');
+  const undoTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const ankiInputRef = useRef<HTMLInputElement>(null);
+
+  const loadWords = () => {
+    getWords().then(allWords => setWords(allWords.sort((a, b) => b.addedAt - a.addedAt)));
+  };
 
   useEffect(() => {
-    const allWords = getWords().sort((a, b) => b.addedAt - a.addedAt);
-    setWords(allWords);
+    loadWords();
+    getSettings().then(s => {
+      setSettings(s);
+      setLanguage(s.targetLanguage);
+    });
   }, []);
 
-  const filteredWords = words.filter(w => 
-    w.word.toLowerCase().includes(searchTerm.toLowerCase()) || 
-    (w.translation && w.translation.includes(searchTerm))
-  );
+  useEffect(() => {
+    setRecordingUrl(null);
+    if (!expandedId) return;
+    let cancelled = false;
+    getRecordingUrl(expandedId).then(url => { if (!cancelled) setRecordingUrl(url || null); });
+    return () => { cancelled = true; };
+  }, [expandedId]);
+
+  const expandedWord = words.find(w => w.id === expandedId);
+
+  // Re-read when the text behind the picture changes, since that changes its cache key
+  useEffect(() => {
+    setCardImage(null);
+    if (!expandedWord) return;
+    let cancelled = false;
+    getCachedCardImage(expandedWord).then(url => { if (!cancelled) setCardImage(url || null); }).catch(() => undefined);
+    return () => { cancelled = true; };
+  }, [expandedId, expandedWord?.word, expandedWord?.context, expandedWord?.visualDescription]);
+
+  useEffect(() => () => { if (undoTimerRef.current) clearTimeout(undoTimerRef.current); }, []);
+
+  const replaceWord = (updated: WordEntry) => setWords(prev => prev.map(w => (w.id === updated.id ? updated : w)));
+
+  const handleEdit = async (word: WordEntry, content: WordContent) => {
+    try {
+      await updateWord(word.id, content);
+      replaceWord({ ...word, ...content });
+      setEditingId(null);
+    } catch (e: any) {
+      console.error("Edit failed", e);
+      alert(e.message || "保存失败");
+    }
+  };
+
+  // Hand-written entries skip the AI entirely; one matching an existing form joins that entry
+  const handleCreate = async (content: WordContent) => {
+    try {
+      const entry = createWordEntry({ ...content, language });
+      const saved = await saveWord(entry);
+      setIsCreating(false);
+      loadWords();
+      setExpandedId(saved.id);
+      if (saved.id !== entry.id) {
+        alert(`"${content.word}" 已并入笔记本中的 "${saved.word}"`);
+        return;
+      }
+      const stats = await getDailyStats();
+      await updateDailyStats({ wordsAdded: (stats.wordsAdded || 0) + 1 });
+      onWordAdded();
+    } catch (e: any) {
+      console.error("Create failed", e);
+      alert(e.message || "保存失败");
+    }
+  };
+
+  const handleDelete = async (word: WordEntry) => {
+    try {
+      const deleted = await deleteWord(word.id);
+      if (!deleted) return;
+      setWords(prev => prev.filter(w => w.id !== word.id));
+      setExpandedId(null);
+      setLastDeleted(deleted);
+      if (undoTimerRef.current) clearTimeout(undoTimerRef.current);
+      undoTimerRef.current = setTimeout(() => setLastDeleted(null), UNDO_MS);
+    } catch (e: any) {
+      console.error("Delete failed", e);
+      alert(e.message || "删除失败");
+    }
+  };
+
+  const handleUndoDelete = async () => {
+    if (!lastDeleted) return;
+    if (undoTimerRef.current) clearTimeout(undoTimerRef.current);
+    setLastDeleted(null);
+    try {
+      await restoreWord(lastDeleted);
+      loadWords();
+      setExpandedId(lastDeleted.word.id);
+    } catch (e: any) {
+      console.error("Restore failed", e);
+      alert(e.message || "恢复失败");
+    }
+  };
+
+  const handleMerge = async (keep: WordEntry, otherId: string) => {
+    const other = words.find(w => w.id === otherId);
+    if (!other || !confirm(`把 "${other.word}" 合并到 "${keep.word}"？保留 "${keep.word}" 的释义和两者中更好的复习记录，"${other.word}" 会被删除。`)) return;
+    try {
+      const merged = await mergeWords(keep.id, other.id);
+      setMergingId(null);
+      if (merged) setWords(prev => prev.filter(w => w.id !== other.id).map(w => (w.id === merged.id ? merged : w)));
+    } catch (e: any) {
+      console.error("Merge failed", e);
+      alert(e.message || "合并失败");
+    }
+  };
+
+  const handleRegenerateDefinition = async (word: WordEntry) => {
+    if (!confirm(`重新生成 "${word.word}" 的释义和例句？当前内容会被替换，复习记录不变。`)) return;
+    setRegenerating({ id: word.id, what: 'definition' });
+    try {
+      const content = await regenerateWordContent(word, { target: getLanguage(word.language), native: getLanguage(settings.nativeLanguage) });
+      await updateWord(word.id, content);
+      replaceWord({ ...word, ...content });
+    } catch (e: any) {
+      console.error("Regenerate failed", e);
+      alert(e instanceof AIResponseError ? "AI 返回的释义不完整，请稍后再试" : e.message || "请求失败，请检查网络或 API 配置");
+    } finally {
+      setRegenerating(null);
+    }
+  };
+
+  const handleRegenerateImage = async (word: WordEntry) => {
+    setRegenerating({ id: word.id, what: 'image' });
+    try {
+      const url = await getCardImage(word, { refresh: true });
+      if (expandedId === word.id) setCardImage(url);
+    } catch (e: any) {
+      console.error("Image regenerate failed", e);
+      alert(e.message || "图片生成失败，请检查网络或 API 配置");
+    } finally {
+      setRegenerating(null);
+    }
+  };
+
+  const handleAnkiExport = async () => {
+    setIsTransferring(true);
+    try {
+      await downloadAnkiExport();
+    } catch (e: any) {
+      console.error("Anki export failed", e);
+      alert(e.message || "导出失败");
+    } finally {
+      setIsTransferring(false);
+    }
+  };
+
+  const handleAnkiImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    setIsTransferring(true);
+    try {
+      const result = await importAnkiNotes(file);
+      alert(`导入完成：新增 ${result.imported} 个，更新 ${result.updated} 个，跳过 ${result.skipped} 个`);
+      loadWords();
+    } catch (err: any) {
+      console.error("Anki import failed", err);
+      alert(err.message || "导入失败");
+    } finally {
+      setIsTransferring(false);
+    }
+  };
+
+  const { native } = getLanguagePair(settings);
+  const notebookLanguages = Array.from(new Set([settings.targetLanguage, ...words.map(w => w.language)]));
+  const languageWords = words.filter(w => w.language === language);
+  const decks = listDecks(languageWords);
+  const tags = listTags(languageWords);
+  const term = searchTerm.toLowerCase();
+  const filteredWords = sortWords(languageWords.filter(w =>
+    inDeck(w, deckFilter) && hasTag(w, tagFilter) && (
+      wordForms(w).some(form => form.includes(term)) ||
+      (w.translation && w.translation.toLowerCase().includes(term)) ||
+      !!w.tags?.some(tag => tag.includes(term))
+    )
+  ), sort);
+  const families = groupWordFamilies(filteredWords);
 
   const toggleExpand = (id: string) => {
     setExpandedId(expandedId === id ? null : id);
@@ -34,8 +245,144 @@ const Notebook: React.FC<NotebookProps> = ({ onBack }) => {
       return 'bg-brand-100 text-brand-600';
   };
 
+  const renderWord = (word: WordEntry) => {
+    const isExpanded = expandedId === word.id;
+    const isEditing = isExpanded && editingId === word.id;
+    const busy = regenerating?.id === word.id ? regenerating.what : null;
+    const addedDate = new Date(word.addedAt).toLocaleDateString();
+    const reviewBadgeColor = getReviewColor(word.reviewLevel);
+    
+    return (
+      <div 
+          key={word.id} 
+          onClick={() => toggleExpand(word.id)}
+          className={`bg-white rounded-[2rem] border transition-all duration-300 overflow-hidden cursor-pointer group ${isExpanded ? 'shadow-2xl border-brand-500/30 scale-[1.02] ring-4 ring-brand-500/5' : 'shadow-sm border-gray-100 hover:border-brand-200 hover:translate-y-[-2px]'}`}
+      >
+          <div className="p-5">
+              <div className="flex justify-between items-start mb-2">
+                  <div>
+                      <h3 className="text-xl font-black text-gray-800 tracking-tight group-hover:text-brand-600 transition-colors">{word.word}</h3>
+                      {/* Default View: Just Translation */}
+                      <p className="text-sm font-bold text-teal-600 mt-0.5">
+                          {word.translation || "Learning..."}
+                      </p>
+                      {(word.deck || !!word.tags?.length) && (
+                          <div className="flex flex-wrap gap-1 mt-1.5">
+                              {word.deck && <span className="text-[10px] font-black px-2 py-0.5 rounded-full bg-purple-50 text-purple-500">{word.deck}</span>}
+                              {word.tags?.map(tag => <span key={tag} className="text-[10px] font-bold px-2 py-0.5 rounded-full bg-gray-50 text-gray-400">#{tag}</span>)}
+                          </div>
+                      )}
+                  </div>
+                  <div className="flex flex-col items-end gap-1.5">
+                      <span className={`text-[10px] font-black px-2.5 py-1 rounded-full uppercase tracking-tighter ${reviewBadgeColor}`}>
+                          Lv.{word.reviewLevel} Master
+                      </span>
+                      <div className="flex items-center gap-1 text-[10px] font-bold text-gray-400">
+                          <BarChart3 size={10} /> {word.reviewCount || 0} reviews
+                      </div>
+                  </div>
+              </div>
+              
+              {!isExpanded && (
+                  <div className="flex justify-end">
+                      <span className="text-[10px] font-bold text-gray-300 uppercase tracking-widest flex items-center gap-1">Tap for details</span>
+                  </div>
+              )}
+          </div>
+
+          {/* Expanded Details: English Explanation + Context */}
+          <div className={`transition-all duration-300 ease-in-out ${isExpanded ? 'max-h-[1000px] opacity-100 border-t border-gray-50 bg-brand-50/20' : 'max-h-0 opacity-0 invisible'}`}>
+              {isEditing ? (
+              <div className="p-5">
+                  <WordEditor initial={word} decks={decks} saveLabel="Save" onSave={content => handleEdit(word, content)} onCancel={() => setEditingId(null)} />
+              </div>
+              ) : (
+              <div className="p-5 space-y-4">
+                  {isExpanded && (
+                      <div className="flex flex-wrap gap-2" onClick={e => e.stopPropagation()}>
+                          <button onClick={() => setEditingId(word.id)} className={ACTION_CLASS}><Pencil size={12} /> Edit</button>
+                          <button onClick={() => handleRegenerateDefinition(word)} disabled={!!busy} className={ACTION_CLASS}>
+                              {busy === 'definition' ? <Loader2 size={12} className="animate-spin" /> : <Sparkles size={12} />} New definition
+                          </button>
+                          <button onClick={() => handleRegenerateImage(word)} disabled={!!busy} className={ACTION_CLASS}>
+                              {busy === 'image' ? <Loader2 size={12} className="animate-spin" /> : <RefreshCw size={12} />} New picture
+                          </button>
+                          <button onClick={() => setMergingId(mergingId === word.id ? null : word.id)} className={ACTION_CLASS}><GitMerge size={12} /> Merge</button>
+                          <button onClick={() => handleDelete(word)} className={`${ACTION_CLASS} hover:text-red-500`}><Trash2 size={12} /> Delete</button>
+                      </div>
+                  )}
+
+                  {isExpanded && mergingId === word.id && (
+                      <div className="bg-white/60 rounded-2xl p-4 border border-purple-100" onClick={e => e.stopPropagation()}>
+                          <span className="text-[10px] font-black text-purple-400 uppercase tracking-widest block mb-1.5">Merge a duplicate into "{word.word}"</span>
+                          <select
+                            value=""
+                            onChange={e => e.target.value && handleMerge(word, e.target.value)}
+                            className="w-full bg-white border border-gray-200 rounded-xl py-2 px-3 text-sm font-bold text-gray-700"
+                          >
+                              <option value="">Choose a word…</option>
+                              {languageWords.filter(w => w.id !== word.id).map(w => (
+                                  <option key={w.id} value={w.id}>{w.word}{w.translation ? ` · ${w.translation}` : ''}</option>
+                              ))}
+                          </select>
+                      </div>
+                  )}
+
+                  {isExpanded && cardImage && (
+                      <img src={cardImage} alt={word.word} className="w-full h-40 object-contain rounded-2xl bg-white/60 border border-brand-100/50" />
+                  )}
+
+                  <div className="bg-white/60 rounded-2xl p-4 border border-brand-100/50">
+                      <span className="text-[10px] font-black text-brand-400 uppercase tracking-widest block mb-1.5 flex items-center gap-1">
+                          <BookOpen size={10} /> {getLanguage(word.language).label} Definition
+                      </span>
+                      <SenseLabel partOfSpeech={word.partOfSpeech} ipa={word.ipa} />
+                      <p className="text-sm text-gray-700 leading-relaxed font-semibold">{word.definition}</p>
+                  </div>
+                  
+                  <div className="bg-white/60 rounded-2xl p-4 border border-brand-100/50">
+                      <span className="text-[10px] font-black text-brand-400 uppercase tracking-widest block mb-1.5 flex items-center gap-1">
+                          <Clock size={10} /> In Context
+                      </span>
+                      <p className="text-sm text-gray-600 italic font-medium leading-relaxed">"{word.context}"</p>
+                  </div>
+
+                  {isExpanded && recordingUrl && (
+                      <div className="bg-white/60 rounded-2xl p-4 border border-brand-100/50" onClick={e => e.stopPropagation()}>
+                          <span className="text-[10px] font-black text-brand-400 uppercase tracking-widest block mb-1.5 flex items-center gap-1">
+                              <Mic size={10} /> My Voice
+                          </span>
+                          <audio src={recordingUrl} controls className="w-full h-8" />
+                      </div>
+                  )}
+
+                  <WordExtras
+                    senses={word.senses}
+                    savedDefinition={word.definition}
+                    variants={word.variants}
+                    family={word.family}
+                    synonyms={word.synonyms}
+                    antonyms={word.antonyms}
+                    collocations={word.collocations}
+                  />
+
+                  <div className="flex items-center justify-between pt-2">
+                      <div className="flex items-center gap-1 text-[10px] font-bold text-gray-400 uppercase tracking-tighter">
+                          <Calendar size={10} /> Collected {addedDate}
+                      </div>
+                      <div className="text-[10px] font-bold text-brand-400 italic">
+                          Keep going! You're doing great.
+                      </div>
+                  </div>
+              </div>
+              )}
+          </div>
+      </div>
+    );
+  };
+
   return (
-    <div className="h-full flex flex-col bg-gray-50 animate-pop">
+    <div className="h-full flex flex-col bg-gray-50 animate-pop relative">
       {/* Header */}
       <div className="bg-white px-6 pt-6 pb-4 shadow-sm z-10 border-b border-gray-100">
         <div className="flex items-center justify-between mb-4">
@@ -48,11 +395,20 @@ const Notebook: React.FC<NotebookProps> = ({ onBack }) => {
               </button>
               <div>
                 <h1 className="text-2xl font-black text-gray-800 tracking-tight">Notebook</h1>
-                <p className="text-[10px] font-bold text-gray-400 uppercase tracking-widest">{words.length} WORDS COLLECTED</p>
+                <p className="text-[10px] font-bold text-gray-400 uppercase tracking-widest">{languageWords.length} {getLanguage(language).name} WORDS COLLECTED</p>
               </div>
           </div>
-          <div className="bg-brand-50 text-brand-600 px-3 py-1 rounded-full text-xs font-bold border border-brand-100">
-              Lv. {Math.round(words.reduce((acc, w) => acc + w.reviewLevel, 0) / (words.length || 1))} Avg.
+          <div className="flex items-center gap-2">
+              <div className="bg-brand-50 text-brand-600 px-3 py-1 rounded-full text-xs font-bold border border-brand-100">
+                  Lv. {Math.round(languageWords.reduce((acc, w) => acc + w.reviewLevel, 0) / (languageWords.length || 1))} Avg.
+              </div>
+              <button
+                onClick={() => setIsCreating(!isCreating)}
+                title="Add a word by hand"
+                className="w-9 h-9 rounded-full bg-brand-500 text-white flex items-center justify-center shadow hover:bg-brand-600"
+              >
+                <Plus size={18} />
+              </button>
           </div>
         </div>
         
@@ -60,16 +416,81 @@ const Notebook: React.FC<NotebookProps> = ({ onBack }) => {
             <Search className="absolute left-4 top-1/2 -translate-y-1/2 text-gray-400" size={18} />
             <input 
                 type="text" 
-                placeholder="Find a word or translation..." 
+                placeholder={`Find a word or ${native.name} translation...`}
                 value={searchTerm}
                 onChange={(e) => setSearchTerm(e.target.value)}
                 className="w-full bg-gray-50 border border-gray-200 rounded-2xl py-3 pl-12 pr-4 text-sm font-bold text-gray-700 focus:outline-none focus:ring-2 focus:ring-brand-500/20 focus:bg-white transition-all"
             />
         </div>
+
+        {notebookLanguages.length > 1 && (
+            <div className="flex gap-2 mt-3 overflow-x-auto">
+                {notebookLanguages.map(code => (
+                    <button
+                      key={code}
+                      onClick={() => { setLanguage(code); setDeckFilter(''); setTagFilter(''); }}
+                      className={`px-3 py-1 rounded-full text-xs font-bold whitespace-nowrap transition-colors ${language === code ? 'bg-brand-500 text-white' : 'bg-gray-50 text-gray-500 border border-gray-100 hover:bg-brand-50'}`}
+                    >
+                      {getLanguage(code).label}
+                    </button>
+                ))}
+            </div>
+        )}
+
+        <div className="flex gap-2 mt-3">
+            <select
+              value={deckFilter}
+              onChange={e => setDeckFilter(e.target.value)}
+              className="flex-1 min-w-0 bg-gray-50 border border-gray-100 rounded-xl py-2 px-2 text-xs font-bold text-gray-600"
+            >
+              <option value="">All decks</option>
+              {decks.map(d => <option key={d} value={d}>{d}</option>)}
+              <option value={NO_DECK}>No deck</option>
+            </select>
+            <select
+              value={tagFilter}
+              onChange={e => setTagFilter(e.target.value)}
+              className="flex-1 min-w-0 bg-gray-50 border border-gray-100 rounded-xl py-2 px-2 text-xs font-bold text-gray-600"
+            >
+              <option value="">All tags</option>
+              {tags.map(t => <option key={t} value={t}>#{t}</option>)}
+            </select>
+            <select
+              value={sort}
+              onChange={e => setSort(e.target.value as NotebookSort)}
+              className="flex-1 min-w-0 bg-gray-50 border border-gray-100 rounded-xl py-2 px-2 text-xs font-bold text-gray-600"
+            >
+              {SORT_OPTIONS.map(({ value, label }) => <option key={value} value={value}>{label}</option>)}
+            </select>
+        </div>
+
+        <div className="flex gap-2 mt-3">
+            <button
+              onClick={handleAnkiExport}
+              disabled={isTransferring || words.length === 0}
+              className="flex-1 py-2 rounded-xl bg-gray-50 border border-gray-100 text-[10px] font-black text-gray-500 uppercase tracking-widest flex items-center justify-center gap-1 hover:bg-brand-50 disabled:opacity-50"
+            >
+              {isTransferring ? <Loader2 size={12} className="animate-spin" /> : <Download size={12} />} Export to Anki
+            </button>
+            <button
+              onClick={() => ankiInputRef.current?.click()}
+              disabled={isTransferring}
+              className="flex-1 py-2 rounded-xl bg-gray-50 border border-gray-100 text-[10px] font-black text-gray-500 uppercase tracking-widest flex items-center justify-center gap-1 hover:bg-brand-50 disabled:opacity-50"
+            >
+              <Upload size={12} /> Import from Anki
+            </button>
+            <input ref={ankiInputRef} type="file" accept=".txt,.tsv,.csv,text/plain" className="hidden" onChange={handleAnkiImport} />
+        </div>
       </div>
 
       {/* List Area */}
       <div className="flex-1 overflow-y-auto px-6 py-6 bg-dot-pattern">
+          {isCreating && (
+              <div className="bg-white rounded-[2rem] border border-brand-500/30 shadow-xl p-5 mb-4">
+                  <h3 className="text-sm font-black text-gray-800 mb-3">New {getLanguage(language).label} word</h3>
+                  <WordEditor initial={deckFilter && deckFilter !== NO_DECK ? { deck: deckFilter } : undefined} decks={decks} saveLabel="Add" onSave={handleCreate} onCancel={() => setIsCreating(false)} />
+              </div>
+          )}
           {filteredWords.length === 0 ? (
               <div className="text-center py-20">
                   <div className="w-20 h-20 bg-gray-100 rounded-full flex items-center justify-center mx-auto mb-4">
@@ -79,76 +500,26 @@ const Notebook: React.FC<NotebookProps> = ({ onBack }) => {
               </div>
           ) : (
               <div className="space-y-4">
-                  {filteredWords.map((word) => {
-                      const isExpanded = expandedId === word.id;
-                      const addedDate = new Date(word.addedAt).toLocaleDateString();
-                      const reviewBadgeColor = getReviewColor(word.reviewLevel);
-                      
-                      return (
-                        <div 
-                            key={word.id} 
-                            onClick={() => toggleExpand(word.id)}
-                            className={`bg-white rounded-[2rem] border transition-all duration-300 overflow-hidden cursor-pointer group ${isExpanded ? 'shadow-2xl border-brand-500/30 scale-[1.02] ring-4 ring-brand-500/5' : 'shadow-sm border-gray-100 hover:border-brand-200 hover:translate-y-[-2px]'}`}
-                        >
-                            <div className="p-5">
-                                <div className="flex justify-between items-start mb-2">
-                                    <div>
-                                        <h3 className="text-xl font-black text-gray-800 tracking-tight group-hover:text-brand-600 transition-colors">{word.word}</h3>
-                                        {/* Default View: Just Translation */}
-                                        <p className="text-sm font-bold text-teal-600 mt-0.5">
-                                            {word.translation || "Learning..."}
-                                        </p>
-                                    </div>
-                                    <div className="flex flex-col items-end gap-1.5">
-                                        <span className={`text-[10px] font-black px-2.5 py-1 rounded-full uppercase tracking-tighter ${reviewBadgeColor}`}>
-                                            Lv.{word.reviewLevel} Master
-                                        </span>
-                                        <div className="flex items-center gap-1 text-[10px] font-bold text-gray-400">
-                                            <BarChart3 size={10} /> {word.reviewCount || 0} reviews
-                                        </div>
-                                    </div>
-                                </div>
-                                
-                                {!isExpanded && (
-                                    <div className="flex justify-end">
-                                        <span className="text-[10px] font-bold text-gray-300 uppercase tracking-widest flex items-center gap-1">Tap for details</span>
-                                    </div>
-                                )}
-                            </div>
-
-                            {/* Expanded Details: English Explanation + Context */}
-                            <div className={`transition-all duration-300 ease-in-out ${isExpanded ? 'max-h-[500px] opacity-100 border-t border-gray-50 bg-brand-50/20' : 'max-h-0 opacity-0 invisible'}`}>
-                                <div className="p-5 space-y-4">
-                                    <div className="bg-white/60 rounded-2xl p-4 border border-brand-100/50">
-                                        <span className="text-[10px] font-black text-brand-400 uppercase tracking-widest block mb-1.5 flex items-center gap-1">
-                                            <BookOpen size={10} /> English Definition
-                                        </span>
-                                        <p className="text-sm text-gray-700 leading-relaxed font-semibold">{word.definition}</p>
-                                    </div>
-                                    
-                                    <div className="bg-white/60 rounded-2xl p-4 border border-brand-100/50">
-                                        <span className="text-[10px] font-black text-brand-400 uppercase tracking-widest block mb-1.5 flex items-center gap-1">
-                                            <Clock size={10} /> In Context
-                                        </span>
-                                        <p className="text-sm text-gray-600 italic font-medium leading-relaxed">"{word.context}"</p>
-                                    </div>
-
-                                    <div className="flex items-center justify-between pt-2">
-                                        <div className="flex items-center gap-1 text-[10px] font-bold text-gray-400 uppercase tracking-tighter">
-                                            <Calendar size={10} /> Collected {addedDate}
-                                        </div>
-                                        <div className="text-[10px] font-bold text-brand-400 italic">
-                                            Keep going! You're doing great.
-                                        </div>
-                                    </div>
-                                </div>
-                            </div>
-                        </div>
-                      );
-                  })}
+                  {families.map(family => family.length === 1 ? renderWord(family[0]) : (
+                      <div key={family[0].id} className="rounded-[2.25rem] border-2 border-dashed border-purple-100 p-2 space-y-3">
+                          <span className="block px-4 pt-1 text-[10px] font-black text-purple-400 uppercase tracking-widest">
+                              Word family · {family.map(w => w.word).join(' · ')}
+                          </span>
+                          {family.map(renderWord)}
+                      </div>
+                  ))}
               </div>
           )}
       </div>
+
+      {lastDeleted && (
+          <div className="absolute bottom-6 left-6 right-6 bg-gray-800 text-white rounded-2xl px-4 py-3 flex items-center justify-between shadow-2xl z-20">
+              <span className="text-sm font-bold truncate">Deleted "{lastDeleted.word.word}"</span>
+              <button onClick={handleUndoDelete} className="flex items-center gap-1 text-sm font-black text-brand-300 hover:text-brand-200">
+                  <Undo2 size={16} /> Undo
+              </button>
+          </div>
+      )}
     </div>
   );
 };
@@ -1,17 +1,121 @@
 
-import React from 'react';
-import { PetState, PetStage } from '../types';
-import { Trophy, BookOpen, MapPin, Star, Activity, ChevronRight } from 'lucide-react';
-import { CURRENT_CONFIG } from '../services/geminiService';
-import { getWords } from '../services/storageService';
+import React, { useState, useEffect } from 'react';
+import { PetState, PetStage, ImageRefreshPolicy, AppSettings } from '../types';
+import { Trophy, BookOpen, MapPin, Star, Activity, ChevronRight, Target, Languages, Image as ImageIcon, Dumbbell, BarChart3, Volume2 } from 'lucide-react';
+import { CURRENT_CONFIG, getImageProvider, getTextProvider, getTtsProvider } from '../services/geminiService';
+import { getWords, getSettings, saveSettings, DEFAULT_SETTINGS } from '../services/storageService';
+import { LANGUAGES, getLanguage } from '../services/languages';
+import { getImageCacheUsage, clearImageCache, IMAGE_CACHE_BUDGET_BYTES } from '../services/imageCache';
+import { listVoices, speakText, getAudioCacheUsage, clearAudioCache, AUDIO_CACHE_BUDGET_BYTES } from '../services/speechOutput';
+import { TtsVoice } from '../services/ttsProviders';
+import BackupPanel from './BackupPanel';
+
+const RETENTION_OPTIONS = [0.8, 0.85, 0.9, 0.95];
+
+const IMAGE_REFRESH_OPTIONS: { value: ImageRefreshPolicy; label: string }[] = [
+  { value: 'never', label: 'Never' },
+  { value: 'weekly', label: 'Weekly' },
+  { value: 'manual', label: 'On request' },
+];
+
+const BRAIN_GYM_OPTIONS: { value: AppSettings['brainGymMode']; label: string }[] = [
+  { value: 'mixed', label: 'Mixed' },
+  { value: 'active', label: 'Recall' },
+  { value: 'cloze', label: 'Cloze' },
+  { value: 'choice', label: 'Choice' },
+  { value: 'dictation', label: 'Dictation' },
+  { value: 'speaking', label: 'Speaking' },
+];
+
+const formatMB = (bytes: number) => `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
 
 interface PetProfileProps {
   pet: PetState;
   onOpenNotebook: () => void;
+  onOpenStats: () => void;
+  onDataRestored: () => void;
 }
 
-const PetProfile: React.FC<PetProfileProps> = ({ pet, onOpenNotebook }) => {
-  const wordCount = getWords().length;
+const PetProfile: React.FC<PetProfileProps> = ({ pet, onOpenNotebook, onOpenStats, onDataRestored }) => {
+  const [wordCount, setWordCount] = useState(0);
+  const [settings, setSettings] = useState(DEFAULT_SETTINGS);
+  const [imageCache, setImageCache] = useState({ count: 0, bytes: 0 });
+  const [audioCache, setAudioCache] = useState({ count: 0, bytes: 0 });
+  const [voices, setVoices] = useState<TtsVoice[]>([]);
+  const ttsProvider = getTtsProvider();
+
+  const loadProfileData = () => {
+    getWords().then(words => setWordCount(words.length));
+    getSettings().then(setSettings);
+    getImageCacheUsage().then(setImageCache).catch(() => undefined);
+    if (ttsProvider.kind === 'clip') getAudioCacheUsage().then(setAudioCache).catch(() => undefined);
+  };
+
+  useEffect(loadProfileData, []);
+
+  useEffect(() => {
+    listVoices(settings.targetLanguage).then(setVoices);
+  }, [settings.targetLanguage]);
+
+  const handleRestored = () => {
+    loadProfileData();
+    onDataRestored();
+  };
+
+  const handleRetentionChange = async (targetRetention: number) => {
+    setSettings(await saveSettings({ targetRetention }));
+  };
+
+  const handleBrainGymModeChange = async (brainGymMode: AppSettings['brainGymMode']) => {
+    setSettings(await saveSettings({ brainGymMode }));
+  };
+
+  const handleLimitChange = async (updates: { dailyNewLimit?: number; dailyReviewLimit?: number }) => {
+    setSettings(await saveSettings(updates));
+  };
+
+  const handleSuggestTagsChange = async (suggestTags: boolean) => {
+    setSettings(await saveSettings({ suggestTags }));
+  };
+
+  const handleSaveRecordingsChange = async (saveRecordings: boolean) => {
+    setSettings(await saveSettings({ saveRecordings }));
+  };
+
+  const handleVoiceChange = async (voice: string) => {
+    const ttsVoices = { ...settings.ttsVoices };
+    if (voice) ttsVoices[settings.targetLanguage] = voice;
+    else delete ttsVoices[settings.targetLanguage];
+    setSettings(await saveSettings({ ttsVoices }));
+  };
+
+  const handleSpeechChange = async (updates: Partial<Pick<AppSettings, 'ttsRate' | 'ttsPitch' | 'speakDefinition' | 'speakContext'>>) => {
+    setSettings(await saveSettings(updates));
+  };
+
+  const handleTestVoice = () => {
+    speakText(getLanguage(settings.targetLanguage).label, settings.targetLanguage, settings);
+  };
+
+  const handleClearAudioCache = async () => {
+    if (!confirm("清除所有已缓存的朗读音频？")) return;
+    await clearAudioCache();
+    setAudioCache({ count: 0, bytes: 0 });
+  };
+
+  const handleImageRefreshChange = async (imageRefresh: ImageRefreshPolicy) => {
+    setSettings(await saveSettings({ imageRefresh }));
+  };
+
+  const handleClearImageCache = async () => {
+    if (!confirm("清除所有已缓存的单词图片？下次复习时会重新生成。")) return;
+    await clearImageCache();
+    setImageCache({ count: 0, bytes: 0 });
+  };
+
+  const handleLanguageChange = async (updates: { targetLanguage?: string; nativeLanguage?: string }) => {
+    setSettings(await saveSettings(updates));
+  };
 
   const stages = [
     { id: PetStage.EGG, label: 'Egg', desc: 'Waiting to hatch' },
@@ -20,6 +124,10 @@ const PetProfile: React.FC<PetProfileProps> = ({ pet, onOpenNotebook }) => {
     { id: PetStage.ADULT, label: 'Adult', desc: 'Needs 1500 XP' },
   ];
 
+  const textProvider = getTextProvider();
+  // Local backends like Ollama run without a key
+  const textReady = !textProvider.requiresKey || CURRENT_CONFIG.hasTextKey;
+
   return (
     <div className="h-full w-full overflow-y-auto px-6 py-6 bg-brand-50/50 relative">
        <div className="mb-8">
@@ -68,6 +176,25 @@ const PetProfile: React.FC<PetProfileProps> = ({ pet, onOpenNotebook }) => {
             </div>
        </button>
 
+       {/* Stats Entry Card */}
+       <button 
+         onClick={onOpenStats}
+         className="w-full bg-white p-6 rounded-3xl shadow-sm border border-brand-100 mb-6 flex justify-between items-center group hover:bg-brand-50 transition-colors"
+       >
+            <div className="flex items-center gap-4">
+                <div className="bg-teal-100 text-teal-600 w-12 h-12 rounded-2xl flex items-center justify-center group-hover:scale-110 transition-transform">
+                    <BarChart3 size={24} />
+                </div>
+                <div className="text-left">
+                    <h3 className="text-lg font-bold text-gray-800 group-hover:text-brand-700 transition-colors">Learning Stats</h3>
+                    <p className="text-sm text-gray-500">Streaks, retention and what's due</p>
+                </div>
+            </div>
+            <div className="w-8 h-8 rounded-full bg-gray-50 flex items-center justify-center text-gray-400 group-hover:bg-brand-200 group-hover:text-brand-700 transition-colors">
+                <ChevronRight size={20} />
+            </div>
+       </button>
+
        {/* Timeline */}
        <div className="bg-white p-6 rounded-3xl shadow-sm border border-brand-100 mb-6">
            <h3 className="font-bold text-gray-800 mb-4 flex items-center gap-2">
@@ -99,6 +226,208 @@ const PetProfile: React.FC<PetProfileProps> = ({ pet, onOpenNotebook }) => {
            </div>
        </div>
 
+       {/* Learner Profile */}
+       <div className="bg-white p-6 rounded-3xl shadow-sm border border-brand-100 mb-6">
+           <h3 className="font-bold text-gray-800 mb-4 flex items-center gap-2">
+               <Languages size={18} className="text-brand-500"/> Languages
+           </h3>
+           <div className="grid grid-cols-2 gap-3">
+               <label className="text-xs font-bold text-gray-400">
+                   I'm learning
+                   <select
+                     value={settings.targetLanguage}
+                     onChange={(e) => handleLanguageChange({ targetLanguage: e.target.value })}
+                     className="mt-1 w-full bg-gray-50 border border-gray-200 rounded-xl py-2 px-3 text-sm font-bold text-gray-700"
+                   >
+                       {LANGUAGES.map(l => <option key={l.code} value={l.code}>{l.label}</option>)}
+                   </select>
+               </label>
+               <label className="text-xs font-bold text-gray-400">
+                   I speak
+                   <select
+                     value={settings.nativeLanguage}
+                     onChange={(e) => handleLanguageChange({ nativeLanguage: e.target.value })}
+                     className="mt-1 w-full bg-gray-50 border border-gray-200 rounded-xl py-2 px-3 text-sm font-bold text-gray-700"
+                   >
+                       {LANGUAGES.map(l => <option key={l.code} value={l.code}>{l.label}</option>)}
+                   </select>
+               </label>
+           </div>
+           <label className="flex items-center justify-between mt-4 text-sm font-bold text-gray-600">
+               Tag new words with AI topic suggestions
+               <input
+                 type="checkbox"
+                 checked={settings.suggestTags}
+                 onChange={e => handleSuggestTagsChange(e.target.checked)}
+                 className="w-5 h-5 accent-brand-500"
+               />
+           </label>
+       </div>
+
+       {/* Review Settings */}
+       <div className="bg-white p-6 rounded-3xl shadow-sm border border-brand-100 mb-6">
+           <h3 className="font-bold text-gray-800 mb-1 flex items-center gap-2">
+               <Target size={18} className="text-brand-500"/> Target Retention
+           </h3>
+           <p className="text-xs text-gray-400 mb-4">Higher means more frequent reviews but fewer forgotten words.</p>
+           <div className="grid grid-cols-4 gap-2">
+               {RETENTION_OPTIONS.map(r => (
+                   <button
+                     key={r}
+                     onClick={() => handleRetentionChange(r)}
+                     className={`py-2 rounded-xl text-sm font-bold transition-colors ${settings.targetRetention === r ? 'bg-brand-500 text-white' : 'bg-gray-50 text-gray-500 hover:bg-brand-50'}`}
+                   >
+                     {Math.round(r * 100)}%
+                   </button>
+               ))}
+           </div>
+       </div>
+
+       {/* Brain Gym Mode */}
+       <div className="bg-white p-6 rounded-3xl shadow-sm border border-brand-100 mb-6">
+           <h3 className="font-bold text-gray-800 mb-1 flex items-center gap-2">
+               <Dumbbell size={18} className="text-brand-500"/> Brain Gym Cards
+           </h3>
+           <p className="text-xs text-gray-400 mb-4">Mixed starts new words with multiple choice, moves to fill-the-blank, then to recall and dictation as they stick.</p>
+           <div className="grid grid-cols-3 gap-2">
+               {BRAIN_GYM_OPTIONS.map(({ value, label }) => (
+                   <button
+                     key={value}
+                     onClick={() => handleBrainGymModeChange(value)}
+                     className={`py-2 rounded-xl text-sm font-bold transition-colors ${settings.brainGymMode === value ? 'bg-brand-500 text-white' : 'bg-gray-50 text-gray-500 hover:bg-brand-50'}`}
+                   >
+                     {label}
+                   </button>
+               ))}
+           </div>
+           <div className="grid grid-cols-2 gap-3 mt-4">
+               <label className="text-xs font-bold text-gray-500">
+                   New words / day
+                   <input
+                     type="number"
+                     min={0}
+                     max={200}
+                     value={settings.dailyNewLimit}
+                     onChange={e => handleLimitChange({ dailyNewLimit: Math.max(0, Math.floor(Number(e.target.value) || 0)) })}
+                     className="mt-1 w-full bg-gray-50 border border-gray-200 rounded-xl py-2 px-3 text-sm font-bold text-gray-700"
+                   />
+               </label>
+               <label className="text-xs font-bold text-gray-500">
+                   Reviews / day
+                   <input
+                     type="number"
+                     min={0}
+                     max={1000}
+                     value={settings.dailyReviewLimit}
+                     onChange={e => handleLimitChange({ dailyReviewLimit: Math.max(0, Math.floor(Number(e.target.value) || 0)) })}
+                     className="mt-1 w-full bg-gray-50 border border-gray-200 rounded-xl py-2 px-3 text-sm font-bold text-gray-700"
+                   />
+               </label>
+           </div>
+           <label className="flex items-center justify-between mt-4 text-sm font-bold text-gray-600">
+               Keep my recordings from speaking drills
+               <input
+                 type="checkbox"
+                 checked={settings.saveRecordings}
+                 onChange={e => handleSaveRecordingsChange(e.target.checked)}
+                 className="w-5 h-5 accent-brand-500"
+               />
+           </label>
+       </div>
+
+       {/* Voice */}
+       <div className="bg-white p-6 rounded-3xl shadow-sm border border-brand-100 mb-6">
+           <h3 className="font-bold text-gray-800 mb-1 flex items-center gap-2">
+               <Volume2 size={18} className="text-brand-500"/> Voice
+           </h3>
+           <p className="text-xs text-gray-400 mb-4">The voice used to read {getLanguage(settings.targetLanguage).label} words and sentences aloud.</p>
+           <div className="flex gap-2 mb-4">
+               <select
+                 value={settings.ttsVoices[settings.targetLanguage] || ''}
+                 onChange={e => handleVoiceChange(e.target.value)}
+                 className="flex-1 min-w-0 bg-gray-50 border border-gray-200 rounded-xl py-2 px-3 text-sm font-bold text-gray-700"
+               >
+                   <option value="">Default voice</option>
+                   {voices.map(v => <option key={v.id} value={v.id}>{v.label}</option>)}
+               </select>
+               <button onClick={handleTestVoice} className="px-4 rounded-xl bg-brand-50 text-brand-600 text-sm font-bold hover:bg-brand-100">Test</button>
+           </div>
+           <label className="block text-xs font-bold text-gray-500 mb-3">
+               Speed · {settings.ttsRate.toFixed(2)}×
+               <input
+                 type="range"
+                 min={0.5}
+                 max={1.5}
+                 step={0.05}
+                 value={settings.ttsRate}
+                 onChange={e => handleSpeechChange({ ttsRate: Number(e.target.value) })}
+                 className="w-full accent-brand-500"
+               />
+           </label>
+           <label className={`block text-xs font-bold text-gray-500 ${ttsProvider.supportsPitch ? '' : 'opacity-40'}`}>
+               Pitch · {settings.ttsPitch.toFixed(2)}{!ttsProvider.supportsPitch && ' (not supported by this voice service)'}
+               <input
+                 type="range"
+                 min={0.5}
+                 max={1.5}
+                 step={0.05}
+                 value={settings.ttsPitch}
+                 disabled={!ttsProvider.supportsPitch}
+                 onChange={e => handleSpeechChange({ ttsPitch: Number(e.target.value) })}
+                 className="w-full accent-brand-500"
+               />
+           </label>
+           <label className="flex items-center justify-between mt-4 text-sm font-bold text-gray-600">
+               Daily Listen reads the definition
+               <input
+                 type="checkbox"
+                 checked={settings.speakDefinition}
+                 onChange={e => handleSpeechChange({ speakDefinition: e.target.checked })}
+                 className="w-5 h-5 accent-brand-500"
+               />
+           </label>
+           <label className="flex items-center justify-between mt-3 text-sm font-bold text-gray-600">
+               Daily Listen reads the example sentence
+               <input
+                 type="checkbox"
+                 checked={settings.speakContext}
+                 onChange={e => handleSpeechChange({ speakContext: e.target.checked })}
+                 className="w-5 h-5 accent-brand-500"
+               />
+           </label>
+           {ttsProvider.kind === 'clip' && (
+               <div className="flex justify-between items-center text-xs text-gray-400 mt-4">
+                   <span>{audioCache.count} clips · {formatMB(audioCache.bytes)} / {formatMB(AUDIO_CACHE_BUDGET_BYTES)}</span>
+                   <button onClick={handleClearAudioCache} className="font-bold text-gray-500 hover:text-red-400">Clear cache</button>
+               </div>
+           )}
+       </div>
+
+       {/* Card Images */}
+       <div className="bg-white p-6 rounded-3xl shadow-sm border border-brand-100 mb-6">
+           <h3 className="font-bold text-gray-800 mb-1 flex items-center gap-2">
+               <ImageIcon size={18} className="text-brand-500"/> Card Images
+           </h3>
+           <p className="text-xs text-gray-400 mb-4">How often a word gets a new picture. Cached pictures are reused across reviews.</p>
+           <div className="grid grid-cols-3 gap-2 mb-3">
+               {IMAGE_REFRESH_OPTIONS.map(({ value, label }) => (
+                   <button
+                     key={value}
+                     onClick={() => handleImageRefreshChange(value)}
+                     className={`py-2 rounded-xl text-sm font-bold transition-colors ${settings.imageRefresh === value ? 'bg-brand-500 text-white' : 'bg-gray-50 text-gray-500 hover:bg-brand-50'}`}
+                   >
+                     {label}
+                   </button>
+               ))}
+           </div>
+           <div className="flex justify-between items-center text-xs text-gray-400">
+               <span>{imageCache.count} images · {formatMB(imageCache.bytes)} / {formatMB(IMAGE_CACHE_BUDGET_BYTES)}</span>
+               <button onClick={handleClearImageCache} className="font-bold text-gray-500 hover:text-red-400">Clear cache</button>
+           </div>
+       </div>
+
+       <BackupPanel onRestored={handleRestored} />
+
        {/* Rules (Chinese) */}
        <div className="bg-white/80 p-6 rounded-3xl border border-brand-50 mb-6">
            <h3 className="font-bold text-gray-800 mb-3">成长规则 (Growth Rules)</h3>
@@ -122,10 +451,14 @@ const PetProfile: React.FC<PetProfileProps> = ({ pet, onOpenNotebook }) => {
                     <span className="block font-bold text-gray-600 mb-1">Text API (Chat)</span>
                     <div className="flex justify-between">
                          <span className="opacity-70">Status:</span>
-                         <span className={CURRENT_CONFIG.hasTextKey ? "text-green-600 font-bold" : "text-red-500 font-bold"}>
-                            {CURRENT_CONFIG.hasTextKey ? "✅ Ready" : "❌ Missing"}
+                         <span className={textReady ? "text-green-600 font-bold" : "text-red-500 font-bold"}>
+                            {textReady ? "✅ Ready" : "❌ Missing"}
                         </span>
                     </div>
+                    <div className="flex justify-between mt-1">
+                         <span className="opacity-70">Provider:</span>
+                         <span className="text-gray-700">{textProvider.label}</span>
+                    </div>
                     <div className="flex justify-between mt-1">
                          <span className="opacity-70">Model:</span>
                          <span className="text-gray-700">{CURRENT_CONFIG.textModel}</span>
@@ -134,18 +467,37 @@ const PetProfile: React.FC<PetProfileProps> = ({ pet, onOpenNotebook }) => {
 
                 {/* Image Config */}
                 <div className="col-span-2">
-                    <span className="block font-bold text-gray-600 mb-1">Image API (DALL-E)</span>
+                    <span className="block font-bold text-gray-600 mb-1">Image API</span>
                     <div className="flex justify-between">
                          <span className="opacity-70">Status:</span>
                          <span className={CURRENT_CONFIG.hasImageKey ? "text-green-600 font-bold" : "text-red-500 font-bold"}>
                             {CURRENT_CONFIG.hasImageKey ? "✅ Ready" : "❌ Missing"}
                         </span>
                     </div>
+                    <div className="flex justify-between mt-1">
+                         <span className="opacity-70">Provider:</span>
+                         <span className="text-gray-700">{getImageProvider().label}</span>
+                    </div>
                     <div className="flex justify-between mt-1">
                          <span className="opacity-70">Model:</span>
                          <span className="text-gray-700">{CURRENT_CONFIG.imageModel}</span>
                     </div>
                 </div>
+
+                {/* Speech Config */}
+                <div className="col-span-2 border-t border-gray-200 pt-2">
+                    <span className="block font-bold text-gray-600 mb-1">Speech API</span>
+                    <div className="flex justify-between">
+                         <span className="opacity-70">Status:</span>
+                         <span className={!ttsProvider.requiresKey || CURRENT_CONFIG.hasTtsKey ? "text-green-600 font-bold" : "text-red-500 font-bold"}>
+                            {!ttsProvider.requiresKey || CURRENT_CONFIG.hasTtsKey ? "✅ Ready" : "❌ Missing"}
+                        </span>
+                    </div>
+                    <div className="flex justify-between mt-1">
+                         <span className="opacity-70">Provider:</span>
+                         <span className="text-gray-700">{ttsProvider.label}</span>
+                    </div>
+                </div>
             </div>
        </div>
     </div>
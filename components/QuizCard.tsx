@@ -0,0 +1,253 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { Check, X, Volume2, MessageSquareText, Mic, Loader2 } from 'lucide-react';
+import { WordEntry, ReviewGrade } from '../types';
+import { AnswerResult, CLOZE_BLANK, ReviewCard, gradeChoice, gradeCloze, gradeDictation, gradeSpeech } from '../services/reviewModes';
+import { diffLetters, LetterStatus, WordMatchStatus } from '../services/textMatch';
+import { recognizeSpeech, startRecording, SpeechInputError } from '../services/speechInput';
+import { saveRecording } from '../services/recordings';
+
+const LETTER_STYLES: Record<LetterStatus, string> = {
+  ok: 'text-green-600',
+  wrong: 'text-red-500 bg-red-50 rounded',
+  missing: 'text-orange-400 underline decoration-dotted',
+  extra: 'text-red-300 line-through',
+};
+
+const SPOKEN_WORD_STYLES: Record<WordMatchStatus, string> = {
+  ok: 'text-green-600',
+  close: 'text-orange-500 underline decoration-dotted',
+  missed: 'text-red-500 line-through decoration-2',
+};
+
+interface QuizCardProps {
+  word: WordEntry;
+  card: Exclude<ReviewCard, { mode: 'active' }>;
+  shownAt: number; // When the card appeared, for response-time grading
+  result: AnswerResult | null;
+  onAnswer: (result: AnswerResult) => void;
+  onSpeak: (text: string) => void;
+  locale: string; // Recognition language for speaking cards
+  saveRecordings: boolean;
+}
+
+/**
+ * Lower half of an auto-graded review card: a cloze sentence with a text box,
+ * a multiple-choice list, a dictation box, or a speaking drill. Grading happens
+ * here; the session applies it.
+ */
+const QuizCard: React.FC<QuizCardProps> = ({ word, card, shownAt, result, onAnswer, onSpeak, locale, saveRecordings }) => {
+  const [typed, setTyped] = useState('');
+  const [picked, setPicked] = useState<number | null>(null);
+  const [listening, setListening] = useState(false);
+  const [speechError, setSpeechError] = useState<string | null>(null);
+  const [clipUrl, setClipUrl] = useState<string | null>(null);
+  const listenAbortRef = useRef<AbortController | null>(null);
+
+  useEffect(() => () => listenAbortRef.current?.abort(), []);
+  useEffect(() => () => { if (clipUrl) URL.revokeObjectURL(clipUrl); }, [clipUrl]);
+
+  const submitCloze = (text: string) => {
+    if (result || card.mode !== 'cloze') return;
+    onAnswer(gradeCloze(text, card.cloze, word, Date.now() - shownAt));
+  };
+
+  const submitDictation = (text: string) => {
+    if (result || card.mode !== 'dictation') return;
+    onAnswer(gradeDictation(text, card.dictation, word, Date.now() - shownAt));
+  };
+
+  const listen = async () => {
+    if (result || listening || card.mode !== 'speaking') return;
+    const controller = new AbortController();
+    listenAbortRef.current = controller;
+    setSpeechError(null);
+    setListening(true);
+    const recorder = saveRecordings ? await startRecording() : null;
+    try {
+      const recognition = await recognizeSpeech(locale, { signal: controller.signal });
+      const graded = gradeSpeech(recognition, card.speaking, word);
+      const clip = recorder && await recorder.stop();
+      if (clip?.size) {
+        setClipUrl(URL.createObjectURL(clip));
+        saveRecording({ wordId: word.id, blob: clip, transcript: graded.heard || '', score: graded.score || 0, recordedAt: Date.now() })
+          .catch(e => console.warn("Saving recording failed", e));
+      }
+      onAnswer(graded);
+    } catch (e) {
+      recorder?.cancel();
+      if (controller.signal.aborted) return;
+      setSpeechError(e instanceof SpeechInputError ? e.message : "语音识别失败，请重试");
+    } finally {
+      if (!controller.signal.aborted) setListening(false);
+    }
+  };
+
+  const pick = (index: number) => {
+    if (result || card.mode !== 'choice') return;
+    setPicked(index);
+    onAnswer(gradeChoice(index, card.choice, Date.now() - shownAt));
+  };
+
+  if (card.mode === 'cloze') {
+    const [before, after] = card.cloze.sentence.split(CLOZE_BLANK);
+    return (
+      <div className="w-full flex flex-col items-center gap-3">
+        <p className="text-lg font-medium text-gray-700 leading-snug">
+          "{before}
+          <span className={`inline-block min-w-[4rem] border-b-2 font-black ${result ? (result.correct ? 'text-green-600 border-green-400' : 'text-red-500 border-red-300') : 'border-brand-300 text-transparent'}`}>
+            {result ? result.expected : '?'}
+          </span>
+          {after}"
+        </p>
+        {word.translation && <p className="text-xs font-bold text-teal-600">{word.translation}</p>}
+        {!result ? (
+          <div className="w-full flex gap-2">
+            <input
+              autoFocus
+              value={typed}
+              onChange={e => setTyped(e.target.value)}
+              onKeyDown={e => e.key === 'Enter' && typed.trim() && submitCloze(typed)}
+              placeholder="Type the missing word"
+              className="flex-1 bg-gray-50 border border-gray-200 rounded-2xl px-4 py-3 text-base font-bold text-gray-700 focus:outline-none focus:ring-2 focus:ring-brand-500/20"
+            />
+            <button onClick={() => submitCloze(typed)} disabled={!typed.trim()} className="px-4 rounded-2xl bg-brand-500 text-white font-black disabled:opacity-50">
+              Check
+            </button>
+          </div>
+        ) : (
+          <p className={`text-sm font-black flex items-center gap-1 ${result.correct ? 'text-green-600' : 'text-red-500'}`}>
+            {result.correct ? <Check size={16} /> : <X size={16} />}
+            {result.correct ? (typed.trim().toLowerCase() === result.expected.toLowerCase() ? 'Correct!' : `Almost — "${typed.trim()}"`) : `You wrote "${typed.trim() || '—'}"`}
+          </p>
+        )}
+        {!result && (
+          <button onClick={() => submitCloze('')} className="text-xs font-bold text-gray-400 hover:text-brand-500">I don't know</button>
+        )}
+      </div>
+    );
+  }
+
+  if (card.mode === 'dictation') {
+    const { answer, sentence } = card.dictation;
+    return (
+      <div className="w-full flex flex-col items-center gap-3">
+        <div className="flex gap-2">
+          <button onClick={() => onSpeak(answer)} className="px-4 py-2 rounded-2xl bg-brand-50 text-brand-600 text-sm font-black flex items-center gap-1.5">
+            <Volume2 size={16} /> Word
+          </button>
+          {sentence && (
+            <button onClick={() => onSpeak(sentence)} className="px-4 py-2 rounded-2xl bg-gray-50 text-gray-500 text-sm font-black flex items-center gap-1.5">
+              <MessageSquareText size={16} /> Sentence
+            </button>
+          )}
+        </div>
+        {!result ? (
+          <>
+            <div className="w-full flex gap-2">
+              <input
+                autoFocus
+                value={typed}
+                onChange={e => setTyped(e.target.value)}
+                onKeyDown={e => e.key === 'Enter' && typed.trim() && submitDictation(typed)}
+                placeholder="Type what you hear"
+                autoCapitalize="off"
+                autoCorrect="off"
+                spellCheck={false}
+                className="flex-1 bg-gray-50 border border-gray-200 rounded-2xl px-4 py-3 text-base font-bold text-gray-700 focus:outline-none focus:ring-2 focus:ring-brand-500/20"
+              />
+              <button onClick={() => submitDictation(typed)} disabled={!typed.trim()} className="px-4 rounded-2xl bg-brand-500 text-white font-black disabled:opacity-50">
+                Check
+              </button>
+            </div>
+            <button onClick={() => submitDictation('')} className="text-xs font-bold text-gray-400 hover:text-brand-500">I don't know</button>
+          </>
+        ) : (
+          <div className="flex flex-col items-center gap-1">
+            {typed.trim() && (
+              <p className="text-2xl font-black tracking-wide">
+                {diffLetters(typed, answer).map((d, i) => (
+                  <span key={i} className={LETTER_STYLES[d.status]}>{d.char}</span>
+                ))}
+              </p>
+            )}
+            <p className={`text-sm font-black flex items-center gap-1 ${result.correct ? 'text-green-600' : 'text-red-500'}`}>
+              {result.correct ? <Check size={16} /> : <X size={16} />}
+              {result.correct && result.grade !== ReviewGrade.HARD ? 'Spelled right!' : `Spelling: ${answer}`}
+            </p>
+          </div>
+        )}
+      </div>
+    );
+  }
+
+  if (card.mode === 'speaking') {
+    const { kind, text } = card.speaking;
+    return (
+      <div className="w-full flex flex-col items-center gap-3">
+        <p className="text-xs font-black text-brand-400 uppercase tracking-widest">
+          {kind === 'sentence' ? 'Read the sentence aloud' : 'Say the word'}
+        </p>
+        {kind === 'sentence' && (
+          <p className="text-lg font-medium leading-snug">
+            {result?.words
+              ? result.words.map((w, i) => (
+                  <span key={i} title={w.heard ? `Heard "${w.heard}"` : undefined} className={SPOKEN_WORD_STYLES[w.status]}>{w.word} </span>
+                ))
+              : <span className="text-gray-700">"{text}"</span>}
+          </p>
+        )}
+        {!result ? (
+          <div className="flex items-center gap-3">
+            <button onClick={() => onSpeak(text)} className="w-12 h-12 rounded-full bg-gray-100 text-gray-600 flex items-center justify-center" title="Hear it first">
+              <Volume2 size={20} />
+            </button>
+            <button
+              onClick={listen}
+              disabled={listening}
+              className={`w-16 h-16 rounded-full shadow-lg flex items-center justify-center text-white ${listening ? 'bg-red-400 animate-pulse' : 'bg-brand-500'}`}
+            >
+              {listening ? <Loader2 size={26} className="animate-spin" /> : <Mic size={28} />}
+            </button>
+          </div>
+        ) : (
+          <div className="flex flex-col items-center gap-1">
+            <p className={`text-sm font-black flex items-center gap-1 ${result.correct ? 'text-green-600' : 'text-red-500'}`}>
+              {result.correct ? <Check size={16} /> : <X size={16} />}
+              {Math.round((result.score || 0) * 100)}% match
+            </p>
+            <p className="text-xs text-gray-400">Heard: "{result.heard || '—'}"</p>
+            {clipUrl && <audio src={clipUrl} controls className="h-8 mt-1" />}
+          </div>
+        )}
+        {speechError && <p className="text-xs font-bold text-red-400">{speechError}</p>}
+      </div>
+    );
+  }
+
+  return (
+    <div className="w-full flex flex-col gap-2">
+      <p className="text-xs font-black text-brand-400 uppercase tracking-widest mb-1">
+        {card.choice.field === 'translation' ? 'Pick the translation' : 'Pick the meaning'}
+      </p>
+      {card.choice.options.map((option, i) => {
+        const isAnswer = i === card.choice.answerIndex;
+        const state = !result ? 'bg-gray-50 border-gray-100 hover:bg-brand-50 text-gray-700'
+          : isAnswer ? 'bg-green-50 border-green-300 text-green-700'
+          : i === picked ? 'bg-red-50 border-red-200 text-red-500'
+          : 'bg-gray-50 border-gray-100 text-gray-400';
+        return (
+          <button
+            key={i}
+            onClick={() => pick(i)}
+            disabled={!!result}
+            className={`w-full text-left px-4 py-2.5 rounded-2xl border text-sm font-bold transition-colors ${state}`}
+          >
+            {option}
+          </button>
+        );
+      })}
+    </div>
+  );
+};
+
+export default QuizCard;
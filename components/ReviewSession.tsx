@@ -1,37 +1,139 @@
 
-import React, { useState, useEffect, useRef } from 'react';
-import { WordEntry, ReviewMode } from '../types';
-import { generateCardImage } from '../services/geminiService';
-import { updateWord, calculateNextReview } from '../services/storageService';
-import { Play, Pause, Check, X, RotateCw, Shuffle } from 'lucide-react';
+import React, { useState, useEffect, useRef, useMemo } from 'react';
+import { WordEntry, ReviewGrade, ActiveReviewSession, SessionAnswer } from '../types';
+import { getCardImage, prefetchCardImages, PREFETCH_AHEAD } from '../services/imageCache';
+import { ImageProgress, isAbortError } from '../services/imageProviders';
+import { getSettings, getWords, saveActiveSession, DEFAULT_SETTINGS } from '../services/storageService';
+import { recordReview, undoReview } from '../services/reviewLog';
+import { MAX_RELEARN_STEPS, RELEARN_GAP } from '../services/reviewQueue';
+import { calculateNextReview, previewIntervals, formatInterval } from '../services/schedulerService';
+import { getLanguage } from '../services/languages';
+import { speakText, stopSpeaking } from '../services/speechOutput';
+import { Play, Pause, RotateCw, RotateCcw, Shuffle, Volume2 } from 'lucide-react';
+import { AnswerResult, ReviewCard, planReviewCard } from '../services/reviewModes';
+import WordExtras, { SenseLabel } from './WordExtras';
+import QuizCard from './QuizCard';
+
+const PROGRESS_LABELS: Record<ImageProgress['stage'], string> = {
+  submitting: 'Sending request',
+  queued: 'Waiting in queue',
+  generating: 'Painting your card',
+  done: 'Almost there',
+};
+
+const CARD_LABELS: Record<ReviewCard['mode'], string> = {
+  active: 'Active Recall',
+  cloze: 'Fill the Blank',
+  choice: 'Multiple Choice',
+  dictation: 'Dictation',
+  speaking: 'Speaking',
+};
+
+const GRADE_BUTTONS = [
+  { grade: ReviewGrade.AGAIN, label: 'Again', className: 'bg-white text-red-400 border border-red-100' },
+  { grade: ReviewGrade.HARD, label: 'Hard', className: 'bg-white text-orange-500 border border-orange-100' },
+  { grade: ReviewGrade.GOOD, label: 'Good', className: 'bg-green-500 text-white' },
+  { grade: ReviewGrade.EASY, label: 'Easy', className: 'bg-teal-500 text-white' },
+];
+
+const SpeakButton: React.FC<{ onClick: () => void }> = ({ onClick }) => (
+  <button onClick={onClick} title="Read aloud" className="inline-flex align-middle ml-1 text-gray-300 hover:text-brand-500 transition-colors">
+    <Volume2 size={14} />
+  </button>
+);
 
 interface ReviewSessionProps {
-  words: WordEntry[];
-  mode: ReviewMode;
+  words: WordEntry[]; // The session's queue, resolved from its word ids
+  session: ActiveReviewSession;
   onComplete: (xpEarned: number) => void;
+  onExit: () => void; // Leaves the session saved for later
 }
 
-const ReviewSession: React.FC<ReviewSessionProps> = ({ words, mode, onComplete }) => {
+const ReviewSession: React.FC<ReviewSessionProps> = ({ words, session, onComplete, onExit }) => {
+  const mode = session.mode;
   const [sessionWords, setSessionWords] = useState<WordEntry[]>(words);
-  const [currentIndex, setCurrentIndex] = useState(0);
+  const [currentIndex, setCurrentIndex] = useState(session.currentIndex);
+  const [answers, setAnswers] = useState<SessionAnswer[]>(session.answers);
   const [isPlaying, setIsPlaying] = useState(false);
   const [showImage, setShowImage] = useState(false);
   const [currentImage, setCurrentImage] = useState<string | null>(null);
   const [loadingImage, setLoadingImage] = useState(false);
+  const [imageProgress, setImageProgress] = useState<ImageProgress | null>(null);
+  const [settings, setSettings] = useState(DEFAULT_SETTINGS);
+  const [pool, setPool] = useState<WordEntry[] | null>(null); // Distractor source for multiple choice
+  const [answer, setAnswer] = useState<AnswerResult | null>(null);
+  const [attempt, setAttempt] = useState(0); // Bumped on undo so the quiz card starts fresh
+  const [lastGraded, setLastGraded] = useState<{ eventId: string; index: number; reinsertedAt?: number } | null>(null);
 
   const currentWord = sessionWords[currentIndex];
   const timeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
   const isPlayingRef = useRef(false); 
   const mountedRef = useRef(true);
+  const imageAbortRef = useRef<AbortController | null>(null);
+  const prefetchAbortRef = useRef(new AbortController());
+  const relearnStepsRef = useRef(new Map<string, number>(Object.entries(session.relearnSteps))); // Times each word was failed and re-queued this session
+  const finishedRef = useRef(false);
+
+  // How this card is asked; waits for the notebook so choice cards have distractors
+  const card = useMemo<ReviewCard | null>(
+      () => (mode === 'passive' || !currentWord || !pool ? null : planReviewCard(currentWord, mode, pool)),
+      [currentWord, mode, pool]
+  );
+  const shownAt = useMemo(() => Date.now(), [card, attempt]);
 
   useEffect(() => {
       setSessionWords(words);
   }, [words]);
 
+  // Keep the saved session in step so it can be resumed after a reload
   useEffect(() => {
-      return () => { mountedRef.current = false; };
+      if (finishedRef.current) return;
+      saveActiveSession({
+          ...session,
+          wordIds: sessionWords.map(w => w.id),
+          currentIndex,
+          answers,
+          relearnSteps: Object.fromEntries(relearnStepsRef.current),
+      }).catch(e => console.warn("Failed to save review session", e));
+  }, [sessionWords, currentIndex, answers]);
+
+  const addAnswer = (entry: SessionAnswer) => {
+      if (mountedRef.current) setAnswers(prev => [...prev, entry]);
+  };
+
+  useEffect(() => {
+      getSettings().then(setSettings);
+      getWords().then(all => { if (mountedRef.current) setPool(all); });
+      return () => {
+          mountedRef.current = false;
+          imageAbortRef.current?.abort();
+          prefetchAbortRef.current.abort();
+      };
   }, []);
 
+  // Warm the cache for the next few cards so the sequence never waits on generation
+  useEffect(() => {
+      prefetchCardImages(sessionWords.slice(currentIndex + 1, currentIndex + 1 + PREFETCH_AHEAD), prefetchAbortRef.current.signal);
+  }, [currentIndex, sessionWords]);
+
+  // Cached image for the card, generated if needed; throws AbortError if the card is left first
+  const loadCardImage = async (word: WordEntry, refresh = false): Promise<string> => {
+      imageAbortRef.current?.abort();
+      const controller = new AbortController();
+      imageAbortRef.current = controller;
+      setImageProgress(null);
+      try {
+          return await getCardImage(word, {
+              refresh,
+              signal: controller.signal,
+              onProgress: p => { if (mountedRef.current && !controller.signal.aborted) setImageProgress(p); },
+          });
+      } finally {
+          if (imageAbortRef.current === controller) imageAbortRef.current = null;
+          if (mountedRef.current) setImageProgress(null);
+      }
+  };
+
   const loadImage = (url: string): Promise<void> => {
       return new Promise((resolve) => {
           const img = new Image();
@@ -41,16 +143,9 @@ const ReviewSession: React.FC<ReviewSessionProps> = ({ words, mode, onComplete }
       });
   };
 
-  const speak = (text: string, rate = 0.9): Promise<void> => {
-    return new Promise((resolve) => {
-      if (!mountedRef.current) return resolve();
-      const u = new SpeechSynthesisUtterance(text);
-      u.rate = rate;
-      u.lang = 'en-US';
-      u.onend = () => resolve();
-      u.onerror = () => resolve(); 
-      window.speechSynthesis.speak(u);
-    });
+  const speak = (text: string, language: string): Promise<void> => {
+    if (!mountedRef.current) return Promise.resolve();
+    return speakText(text, language, settings);
   };
 
   const wait = (ms: number) => new Promise(resolve => {
@@ -67,6 +162,8 @@ const ReviewSession: React.FC<ReviewSessionProps> = ({ words, mode, onComplete }
     }
     setSessionWords([...done, ...upcoming]);
     setIsPlaying(false);
+    setLastGraded(null); // A re-queued card may have moved
+
   };
 
   const runPassiveSequence = async (word: WordEntry) => {
@@ -75,14 +172,15 @@ const ReviewSession: React.FC<ReviewSessionProps> = ({ words, mode, onComplete }
     setLoadingImage(true);
     setCurrentImage(null);
 
-    let imgUrl = word.todayImage;
-    const today = new Date().toISOString().split('T')[0];
-    if (!imgUrl || word.todayImageDate !== today) {
-        imgUrl = await generateCardImage(word.word, word.context, word.visualDescription);
-        updateWord(word.id, { todayImage: imgUrl, todayImageDate: today });
+    let imgUrl: string;
+    try {
+        imgUrl = await loadCardImage(word);
+    } catch (e) {
+        if (isAbortError(e)) return;
+        throw e;
     }
 
-    await speak(word.word);
+    await speak(word.word, word.language);
     if (!mountedRef.current || !isPlayingRef.current) return;
     await wait(500);
 
@@ -91,12 +189,21 @@ const ReviewSession: React.FC<ReviewSessionProps> = ({ words, mode, onComplete }
     setShowImage(true);
     await loadImage(imgUrl);
 
-    await speak(word.word);
+    await speak(word.word, word.language);
     if (!mountedRef.current || !isPlayingRef.current) return;
+    for (const text of [settings.speakDefinition && word.definition, settings.speakContext && word.context]) {
+        if (!text) continue;
+        await wait(400);
+        await speak(text, word.language);
+        if (!mountedRef.current || !isPlayingRef.current) return;
+    }
     await wait(2500);
 
     // Passive count
-    updateWord(word.id, { reviewCount: (word.reviewCount || 0) + 1 });
+    const index = currentIndex;
+    recordReview(word.id, { mode: 'passive' })
+        .then(event => addAnswer({ index, wordId: word.id, eventId: event?.id }))
+        .catch(e => console.error("Failed to save review", e));
     handleNext();
   };
 
@@ -108,15 +215,20 @@ const ReviewSession: React.FC<ReviewSessionProps> = ({ words, mode, onComplete }
           const load = async () => {
             setLoadingImage(true);
             setShowImage(false); 
-            let imgUrl = currentWord.todayImage;
-            if (!imgUrl) {
-                imgUrl = await generateCardImage(currentWord.word, currentWord.context, currentWord.visualDescription);
-                updateWord(currentWord.id, { todayImage: imgUrl, todayImageDate: new Date().toISOString().split('T')[0] });
+            // Dictation plays straight away; there's nothing to read while the picture loads
+            if (card?.mode === 'dictation') speak(card.dictation.answer, currentWord.language);
+            let imgUrl: string;
+            try {
+                imgUrl = await loadCardImage(currentWord);
+            } catch (e) {
+                if (isAbortError(e)) return;
+                throw e;
             }
             if (mountedRef.current) {
                 setCurrentImage(imgUrl);
                 setLoadingImage(false);
-                speak(currentWord.word);
+                // Saying the word would give away the blank
+                if (card?.mode === 'active' || card?.mode === 'choice') speak(currentWord.word, currentWord.language);
             }
           }
           load();
@@ -124,54 +236,122 @@ const ReviewSession: React.FC<ReviewSessionProps> = ({ words, mode, onComplete }
   };
 
   useEffect(() => {
-    if (isPlaying) {
+    if (mode !== 'passive') {
+        if (card) startSequence();
+    } else if (isPlaying) {
         isPlayingRef.current = true;
         startSequence();
     } else {
         isPlayingRef.current = false;
-        window.speechSynthesis.cancel();
+        stopSpeaking();
         if (timeoutRef.current) clearTimeout(timeoutRef.current);
     }
     return () => {
         if (timeoutRef.current) clearTimeout(timeoutRef.current);
-        window.speechSynthesis.cancel();
+        stopSpeaking();
+        imageAbortRef.current?.abort();
     }
-  }, [isPlaying, currentIndex]);
+  }, [isPlaying, currentIndex, card]);
 
-  const handleNext = () => {
-    if (currentIndex < sessionWords.length - 1) {
+  const refreshImage = async () => {
+      setLoadingImage(true);
+      try {
+          const imgUrl = await loadCardImage(currentWord, true);
+          if (mountedRef.current) setCurrentImage(imgUrl);
+      } catch (e) {
+          if (!isAbortError(e)) console.error("Image refresh failed", e);
+      } finally {
+          if (mountedRef.current) setLoadingImage(false);
+      }
+  };
+
+  // `added` counts cards queued in this same event, which `sessionWords` doesn't show yet
+  const handleNext = (added = 0) => {
+    setAnswer(null);
+    if (currentIndex < sessionWords.length - 1 + added) {
       setCurrentIndex(prev => prev + 1);
     } else {
+      finishedRef.current = true;
       onComplete(50);
     }
   };
 
-  const handleRate = (correct: boolean) => {
-    const { level, date } = calculateNextReview(currentWord.reviewLevel, correct);
-    updateWord(currentWord.id, { 
-        reviewLevel: level, 
-        nextReviewDate: date, 
-        lastReviewedAt: Date.now(),
-        reviewCount: (currentWord.reviewCount || 0) + 1 // Active count
-    });
-    handleNext();
+  // Records the grade; a failed card is queued again a few cards later. Returns how many cards were added.
+  const applyGrade = (grade: ReviewGrade): number => {
+    if (!card) return 0;
+    const index = currentIndex;
+    const schedule = calculateNextReview(currentWord, grade, settings.targetRetention);
+
+    let reinsertedAt: number | undefined;
+    const steps = relearnStepsRef.current.get(currentWord.id) || 0;
+    if (grade === ReviewGrade.AGAIN && steps < MAX_RELEARN_STEPS) {
+        relearnStepsRef.current.set(currentWord.id, steps + 1);
+        const at = Math.min(index + 1 + RELEARN_GAP, sessionWords.length);
+        const relearn = { ...currentWord, ...schedule, reviewCount: (currentWord.reviewCount || 0) + 1 };
+        setSessionWords(prev => [...prev.slice(0, at), relearn, ...prev.slice(at)]);
+        reinsertedAt = at;
+    }
+
+    recordReview(currentWord.id, { mode: card.mode, grade, responseMs: Date.now() - shownAt, schedule })
+        .then(event => {
+            addAnswer({ index, wordId: currentWord.id, grade, eventId: event?.id });
+            if (event && mountedRef.current) setLastGraded({ eventId: event.id, index, reinsertedAt });
+        })
+        .catch(e => console.error("Failed to save review", e));
+    return reinsertedAt === undefined ? 0 : 1;
+  };
+
+  // Takes back the latest grade and puts its card on screen again
+  const handleUndo = async () => {
+    if (!lastGraded) return;
+    const { eventId, index, reinsertedAt } = lastGraded;
+    setLastGraded(null);
+    if (!(await undoReview(eventId)) || !mountedRef.current) return;
+    if (reinsertedAt !== undefined) {
+        const wordId = sessionWords[index].id;
+        relearnStepsRef.current.set(wordId, (relearnStepsRef.current.get(wordId) || 1) - 1);
+        setSessionWords(prev => prev.filter((_, i) => i !== reinsertedAt));
+    }
+    setAnswers(prev => prev.filter(a => a.eventId !== eventId));
+    setAnswer(null);
+    setAttempt(a => a + 1);
+    setCurrentIndex(index);
+  };
+
+  const handleRate = (grade: ReviewGrade) => {
+    handleNext(applyGrade(grade));
+  };
+
+  // Auto-graded cards are scheduled as soon as they're answered; the learner then reads the feedback
+  const handleAnswer = (result: AnswerResult) => {
+    applyGrade(result.grade);
+    setAnswer(result);
   };
 
   if (!currentWord) return null;
 
+  const intervals = card ? previewIntervals(currentWord, settings.targetRetention) : null;
+  const quiz = card && card.mode !== 'active' ? card : null;
+  const revealed = showImage || (!!card && (!quiz || !!answer));
+
   return (
     <div className="flex flex-col h-full p-6 relative">
       <div className="flex justify-between items-center mb-4">
           <span className="text-xs font-bold text-brand-400 uppercase tracking-wider">
-              {mode === 'passive' ? 'Daily Listen' : 'Active Recall'} • {currentIndex + 1}/{sessionWords.length}
+              {mode === 'passive' ? 'Daily Listen' : card ? CARD_LABELS[card.mode] : 'Brain Gym'} • {currentIndex + 1}/{sessionWords.length}
           </span>
           <div className="flex gap-4">
+             {lastGraded && (
+                <button onClick={handleUndo} title="Undo last grade" className="text-gray-400 hover:text-brand-500 transition-colors">
+                    <RotateCcw size={16} />
+                </button>
+             )}
              {currentIndex < sessionWords.length - 1 && (
                 <button onClick={shuffleQueue} className="text-gray-400 hover:text-brand-500 transition-colors">
                     <Shuffle size={16} />
                 </button>
              )}
-             <span onClick={() => onComplete(0)} className="text-xs font-bold text-brand-400 uppercase tracking-wider cursor-pointer hover:text-red-400">Exit</span>
+             <span onClick={onExit} className="text-xs font-bold text-brand-400 uppercase tracking-wider cursor-pointer hover:text-red-400">Exit</span>
           </div>
       </div>
       
@@ -181,23 +361,68 @@ const ReviewSession: React.FC<ReviewSessionProps> = ({ words, mode, onComplete }
 
       <div className="flex-1 relative">
         <div className="w-full h-full bg-white rounded-[2rem] shadow-xl border border-gray-100 flex flex-col overflow-hidden">
-            <div className={`h-3/5 relative bg-gray-50 transition-opacity duration-700 ${showImage || mode === 'active' ? 'opacity-100' : 'opacity-0'}`}>
+            <div className={`h-3/5 relative bg-gray-50 transition-opacity duration-700 ${showImage || mode !== 'passive' ? 'opacity-100' : 'opacity-0'}`}>
                 {loadingImage ? (
-                    <div className="absolute inset-0 flex items-center justify-center text-brand-300">
+                    <div className="absolute inset-0 flex flex-col items-center justify-center gap-2 text-brand-300">
                         <RotateCw className="animate-spin" />
+                        {imageProgress && (
+                            <span className="text-xs font-bold text-brand-400">
+                                {PROGRESS_LABELS[imageProgress.stage]} · {Math.round(imageProgress.elapsedMs / 1000)}s
+                            </span>
+                        )}
                     </div>
                 ) : (
                     currentImage && <img src={currentImage} alt="Visual" className="w-full h-full object-contain p-4" />
                 )}
+                {settings.imageRefresh === 'manual' && currentImage && !loadingImage && (
+                    <button onClick={refreshImage} title="New picture" className="absolute top-3 right-3 w-8 h-8 rounded-full bg-white/80 text-gray-400 hover:text-brand-500 flex items-center justify-center shadow">
+                        <RotateCw size={14} />
+                    </button>
+                )}
             </div>
 
-            <div className="h-2/5 p-4 flex flex-col items-center justify-start text-center bg-white">
-                <h2 className="text-4xl font-black text-gray-800 mb-2">{currentWord.word}</h2>
-                <div className={`transition-all duration-500 ${(showImage || mode === 'active') ? 'opacity-100 translate-y-0' : 'opacity-0 translate-y-4'}`}>
-                   {(showImage || mode === 'active') && (
+            <div className="h-2/5 p-4 flex flex-col items-center justify-start text-center bg-white overflow-y-auto">
+                <h2 className="text-4xl font-black text-gray-800 mb-2">{(quiz?.mode === 'cloze' || quiz?.mode === 'dictation') && !answer ? '?' : currentWord.word}</h2>
+                {quiz && (
+                  <QuizCard
+                    key={`${currentWord.id}-${currentIndex}-${attempt}`}
+                    word={currentWord}
+                    card={quiz}
+                    shownAt={shownAt}
+                    result={answer}
+                    onAnswer={handleAnswer}
+                    onSpeak={text => speak(text, currentWord.language)}
+                    locale={getLanguage(currentWord.language).locale}
+                    saveRecordings={settings.saveRecordings}
+                  />
+                )}
+                <div className={`transition-all duration-500 ${quiz ? 'mt-4' : ''} ${revealed ? 'opacity-100 translate-y-0' : 'opacity-0 translate-y-4'}`}>
+                   {revealed && (
                      <>
-                        <p className="text-lg font-medium text-gray-600 leading-snug mb-1">{currentWord.definition}</p>
-                        <p className="text-xs text-gray-400 italic">"{currentWord.context}"</p>
+                        <div className="flex justify-center mb-1"><SenseLabel partOfSpeech={currentWord.partOfSpeech} ipa={currentWord.ipa} /></div>
+                        <p className="text-lg font-medium text-gray-600 leading-snug mb-1">
+                            {currentWord.definition}
+                            <SpeakButton onClick={() => speak(currentWord.definition, currentWord.language)} />
+                        </p>
+                        {quiz?.mode !== 'cloze' && (
+                            <p className="text-xs text-gray-400 italic">
+                                "{currentWord.context}"
+                                <SpeakButton onClick={() => speak(currentWord.context, currentWord.language)} />
+                            </p>
+                        )}
+                        {card && (
+                          <div className="mt-4">
+                            <WordExtras
+                              senses={currentWord.senses}
+                              savedDefinition={currentWord.definition}
+                              variants={currentWord.variants}
+                              family={currentWord.family}
+                              synonyms={currentWord.synonyms}
+                              antonyms={currentWord.antonyms}
+                              collocations={currentWord.collocations}
+                            />
+                          </div>
+                        )}
                      </>
                    )}
                 </div>
@@ -211,17 +436,25 @@ const ReviewSession: React.FC<ReviewSessionProps> = ({ words, mode, onComplete }
                 {isPlaying ? <Pause size={32} fill="currentColor" /> : <Play size={36} fill="currentColor" className="ml-1" />}
              </button>
          )}
-         {mode === 'active' && (
-            <div className="w-full px-8 flex justify-between items-center">
-                 <button onClick={() => handleRate(false)} className="w-16 h-16 rounded-full bg-white shadow-lg text-red-400 border border-red-100 flex items-center justify-center">
-                     <X size={32} strokeWidth={3} />
-                 </button>
-                 <button onClick={() => speak(currentWord.word)} className="w-12 h-12 rounded-full bg-gray-100 text-gray-600 flex items-center justify-center">
+         {quiz && answer && intervals && (
+            <button onClick={() => handleNext()} className={`w-full h-16 rounded-2xl shadow-lg flex flex-col items-center justify-center ${answer.correct ? 'bg-green-500 text-white' : 'bg-white text-red-400 border border-red-100'}`}>
+                <span className="text-sm font-black">Continue</span>
+                <span className="text-[10px] font-bold opacity-70">Next review in {formatInterval(intervals[answer.grade])}</span>
+            </button>
+         )}
+         {card?.mode === 'active' && intervals && (
+            <div className="w-full flex items-center gap-3">
+                 <button onClick={() => speak(currentWord.word, currentWord.language)} className="w-12 h-12 flex-shrink-0 rounded-full bg-gray-100 text-gray-600 flex items-center justify-center">
                     <Play size={20} fill="currentColor" />
                  </button>
-                 <button onClick={() => handleRate(true)} className="w-16 h-16 rounded-full bg-green-500 text-white shadow-lg flex items-center justify-center">
-                     <Check size={32} strokeWidth={3} />
-                 </button>
+                 <div className="flex-1 grid grid-cols-4 gap-2">
+                     {GRADE_BUTTONS.map(({ grade, label, className }) => (
+                         <button key={grade} onClick={() => handleRate(grade)} className={`h-16 rounded-2xl shadow-lg flex flex-col items-center justify-center ${className}`}>
+                             <span className="text-sm font-black">{label}</span>
+                             <span className="text-[10px] font-bold opacity-70">{formatInterval(intervals[grade])}</span>
+                         </button>
+                     ))}
+                 </div>
             </div>
          )}
       </div>
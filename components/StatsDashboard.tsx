@@ -0,0 +1,191 @@
+import React, { useState, useEffect } from 'react';
+import { ArrowLeft, Flame, CalendarDays, TrendingUp, Target, BarChart3, Loader2 } from 'lucide-react';
+import { loadStatsDashboard, StatsDashboard as Dashboard, HeatmapDay } from '../services/statsService';
+
+interface StatsDashboardProps {
+  onBack: () => void;
+}
+
+const LEVEL_COLORS = ['bg-gray-300', 'bg-orange-300', 'bg-orange-400', 'bg-teal-400', 'bg-teal-500', 'bg-brand-500'];
+
+const heatColor = (day: HeatmapDay) => {
+  if (day.inFuture) return 'bg-transparent';
+  const activity = day.reviews + day.wordsAdded;
+  if (activity === 0) return 'bg-gray-100';
+  if (activity < 5) return 'bg-brand-100';
+  if (activity < 15) return 'bg-brand-300';
+  if (activity < 30) return 'bg-brand-400';
+  return 'bg-brand-600';
+};
+
+const percent = (rate: number | null) => (rate === null ? '—' : `${Math.round(rate * 100)}%`);
+
+const shortDate = (date: string) => {
+  const [, month, day] = date.split('-');
+  return `${Number(month)}/${Number(day)}`;
+};
+
+const Section: React.FC<{ title: string; icon: React.ReactNode; children: React.ReactNode }> = ({ title, icon, children }) => (
+  <div className="bg-white p-5 rounded-3xl shadow-sm border border-brand-100">
+    <h3 className="font-bold text-gray-800 mb-4 flex items-center gap-2">{icon} {title}</h3>
+    {children}
+  </div>
+);
+
+// Simple vertical bar chart; labels every `labelEvery` bars
+const Bars: React.FC<{ values: number[]; labels: string[]; labelEvery: number; className: string }> = ({ values, labels, labelEvery, className }) => {
+  const max = Math.max(1, ...values);
+  return (
+    <div>
+      <div className="flex items-end gap-1 h-24">
+        {values.map((v, i) => (
+          <div key={i} title={`${labels[i]}: ${v}`} className="flex-1 h-full flex items-end">
+            <div className={`w-full rounded-t ${v ? className : 'bg-gray-100'}`} style={{ height: `${Math.max(4, (v / max) * 100)}%` }} />
+          </div>
+        ))}
+      </div>
+      <div className="flex gap-1 mt-1">
+        {labels.map((label, i) => (
+          <span key={i} className="flex-1 text-[9px] font-bold text-gray-400 text-center overflow-visible whitespace-nowrap">
+            {i % labelEvery === 0 ? label : ''}
+          </span>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+/**
+ * Learning history: activity heatmap, streaks, words added, upcoming reviews,
+ * retention by interval and mastery levels.
+ */
+const StatsDashboard: React.FC<StatsDashboardProps> = ({ onBack }) => {
+  const [stats, setStats] = useState<Dashboard | null>(null);
+
+  useEffect(() => {
+    loadStatsDashboard()
+      .then(setStats)
+      .catch(e => {
+        console.error("Failed to load stats", e);
+        alert("无法读取学习统计");
+      });
+  }, []);
+
+  const totalWords = stats ? stats.levels.reduce((sum, n) => sum + n, 0) : 0;
+
+  return (
+    <div className="h-full flex flex-col bg-gray-50 animate-pop">
+      <div className="bg-white px-6 pt-6 pb-4 shadow-sm z-10 border-b border-gray-100">
+        <div className="flex items-center gap-3">
+          <button
+            onClick={onBack}
+            className="w-10 h-10 rounded-full bg-gray-50 flex items-center justify-center text-gray-600 hover:bg-gray-100 transition-colors border border-gray-100"
+          >
+            <ArrowLeft size={20} />
+          </button>
+          <div>
+            <h1 className="text-2xl font-black text-gray-800 tracking-tight">Learning Stats</h1>
+            <p className="text-[10px] font-bold text-gray-400 uppercase tracking-widest">{stats ? `${stats.totalReviews} reviews logged` : 'Loading...'}</p>
+          </div>
+        </div>
+      </div>
+
+      {!stats ? (
+        <div className="flex-1 flex items-center justify-center text-brand-300"><Loader2 className="animate-spin" /></div>
+      ) : (
+        <div className="flex-1 overflow-y-auto p-6 space-y-6 pb-24">
+          <div className="grid grid-cols-3 gap-3">
+            <div className="bg-white p-4 rounded-3xl shadow-sm border border-orange-100 text-center">
+              <Flame size={20} className="text-orange-500 mx-auto mb-1" />
+              <div className="text-2xl font-black text-gray-800">{stats.currentStreak}</div>
+              <div className="text-[10px] font-bold text-gray-400 uppercase">Day streak</div>
+            </div>
+            <div className="bg-white p-4 rounded-3xl shadow-sm border border-brand-100 text-center">
+              <TrendingUp size={20} className="text-brand-500 mx-auto mb-1" />
+              <div className="text-2xl font-black text-gray-800">{stats.longestStreak}</div>
+              <div className="text-[10px] font-bold text-gray-400 uppercase">Best streak</div>
+            </div>
+            <div className="bg-white p-4 rounded-3xl shadow-sm border border-teal-100 text-center">
+              <Target size={20} className="text-teal-500 mx-auto mb-1" />
+              <div className="text-2xl font-black text-gray-800">{percent(stats.overallRetention)}</div>
+              <div className="text-[10px] font-bold text-gray-400 uppercase">Retention</div>
+            </div>
+          </div>
+
+          <Section title="Activity" icon={<CalendarDays size={18} className="text-brand-500" />}>
+            <div className="flex gap-1 justify-center">
+              {stats.heatmap.map((week, i) => (
+                <div key={i} className="flex flex-col gap-1">
+                  {week.map(day => (
+                    <div
+                      key={day.date}
+                      title={day.inFuture ? undefined : `${day.date}: ${day.reviews} reviews, ${day.wordsAdded} new words`}
+                      className={`w-4 h-4 rounded ${heatColor(day)}`}
+                    />
+                  ))}
+                </div>
+              ))}
+            </div>
+            <div className="flex justify-end items-center gap-1 mt-3 text-[10px] font-bold text-gray-400">
+              Less
+              {['bg-gray-100', 'bg-brand-100', 'bg-brand-300', 'bg-brand-400', 'bg-brand-600'].map(c => <span key={c} className={`w-3 h-3 rounded ${c}`} />)}
+              More
+            </div>
+          </Section>
+
+          <Section title="Words Added per Week" icon={<BarChart3 size={18} className="text-brand-500" />}>
+            <Bars
+              values={stats.wordsPerWeek.map(w => w.count)}
+              labels={stats.wordsPerWeek.map(w => shortDate(w.weekStart))}
+              labelEvery={3}
+              className="bg-brand-400"
+            />
+          </Section>
+
+          <Section title="Due in the Next 30 Days" icon={<CalendarDays size={18} className="text-teal-500" />}>
+            <Bars
+              values={stats.dueForecast.map(d => d.count)}
+              labels={stats.dueForecast.map((d, i) => (i === 0 ? 'Today' : shortDate(d.date)))}
+              labelEvery={7}
+              className="bg-teal-400"
+            />
+          </Section>
+
+          <Section title="Retention by Interval" icon={<Target size={18} className="text-teal-500" />}>
+            <p className="text-xs text-gray-400 -mt-2 mb-3">Share of reviews you got right, by how long the word had been scheduled for.</p>
+            <div className="space-y-2">
+              {stats.retention.map(bucket => (
+                <div key={bucket.key} className="flex items-center gap-3 text-xs font-bold">
+                  <span className="w-12 text-gray-500">{bucket.key}</span>
+                  <div className="flex-1 h-3 bg-gray-100 rounded-full overflow-hidden">
+                    <div className="h-full bg-teal-400" style={{ width: `${(bucket.rate || 0) * 100}%` }} />
+                  </div>
+                  <span className="w-10 text-right text-gray-700">{percent(bucket.rate)}</span>
+                  <span className="w-10 text-right text-gray-300">{bucket.reviews}</span>
+                </div>
+              ))}
+            </div>
+          </Section>
+
+          <Section title="Mastery Levels" icon={<BarChart3 size={18} className="text-brand-500" />}>
+            <div className="flex h-4 rounded-full overflow-hidden bg-gray-100 mb-3">
+              {stats.levels.map((count, level) => count > 0 && (
+                <div key={level} className={LEVEL_COLORS[level]} style={{ width: `${(count / totalWords) * 100}%` }} />
+              ))}
+            </div>
+            <div className="grid grid-cols-6 gap-1 text-center">
+              {stats.levels.map((count, level) => (
+                <div key={level}>
+                  <div className="text-sm font-black text-gray-700">{count}</div>
+                  <div className="text-[10px] font-bold text-gray-400">Lv.{level}</div>
+                </div>
+              ))}
+            </div>
+          </Section>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default StatsDashboard;
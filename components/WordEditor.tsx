@@ -0,0 +1,157 @@
+import React, { useState } from 'react';
+import { Check, X, Loader2 } from 'lucide-react';
+import { WordEntry, WordSense } from '../types';
+import { mergeTags, normalizeDeck } from '../services/decks';
+
+export type WordContent = Pick<WordEntry,
+  'word' | 'translation' | 'definition' | 'context' | 'partOfSpeech' | 'ipa' | 'visualDescription' |
+  'variants' | 'family' | 'synonyms' | 'antonyms' | 'collocations' | 'deck' | 'tags' | 'senses'>;
+
+type TextField = 'word' | 'translation' | 'definition' | 'context' | 'partOfSpeech' | 'ipa' | 'visualDescription';
+type ListField = 'variants' | 'family' | 'synonyms' | 'antonyms' | 'collocations' | 'tags';
+
+const TEXT_FIELDS: { key: TextField; label: string; multiline?: boolean; required?: boolean }[] = [
+  { key: 'word', label: 'Word', required: true },
+  { key: 'translation', label: 'Translation' },
+  { key: 'definition', label: 'Definition', multiline: true, required: true },
+  { key: 'context', label: 'Example sentence', multiline: true, required: true },
+  { key: 'partOfSpeech', label: 'Part of speech' },
+  { key: 'ipa', label: 'IPA' },
+  { key: 'visualDescription', label: 'Picture description', multiline: true },
+];
+
+const LIST_FIELDS: { key: ListField; label: string }[] = [
+  { key: 'tags', label: 'Tags' },
+  { key: 'variants', label: 'Other forms' },
+  { key: 'family', label: 'Word family' },
+  { key: 'synonyms', label: 'Synonyms' },
+  { key: 'antonyms', label: 'Antonyms' },
+  { key: 'collocations', label: 'Collocations' },
+];
+
+const splitList = (value: string) => {
+  const items = value.split(/[,，;；\n]/).map(s => s.trim()).filter(Boolean);
+  return items.length ? items : undefined;
+};
+
+const toDraft = (word?: Partial<WordEntry>): Record<TextField | ListField | 'deck', string> => ({
+  word: word?.word || '',
+  translation: word?.translation || '',
+  definition: word?.definition || '',
+  context: word?.context || '',
+  partOfSpeech: word?.partOfSpeech || '',
+  ipa: word?.ipa || '',
+  visualDescription: word?.visualDescription || '',
+  variants: (word?.variants || []).join(', '),
+  family: (word?.family || []).join(', '),
+  synonyms: (word?.synonyms || []).join(', '),
+  antonyms: (word?.antonyms || []).join(', '),
+  collocations: (word?.collocations || []).join(', '),
+  deck: word?.deck || '',
+  tags: (word?.tags || []).join(', '),
+});
+
+/**
+ * Carries the edit into the sense the word was saved with (found by its old
+ * definition, else its part of speech), so the AI's original wording doesn't
+ * resurface under "Other meanings".
+ */
+const syncSavedSense = (initial: Partial<WordEntry> | undefined, content: WordContent): WordSense[] | undefined => {
+  const senses = initial?.senses;
+  if (!senses?.length) return senses;
+  let index = senses.findIndex(s => s.definition === initial!.definition);
+  if (index < 0 && initial!.partOfSpeech) index = senses.findIndex(s => s.partOfSpeech === initial!.partOfSpeech);
+  if (index < 0) return senses;
+  return senses.map((s, i) => (i === index ? {
+    ...s,
+    definition: content.definition,
+    translation: content.translation,
+    example: content.context,
+    partOfSpeech: content.partOfSpeech,
+    ipa: content.ipa,
+    visualDescription: content.visualDescription,
+  } : s));
+};
+
+interface WordEditorProps {
+  initial?: Partial<WordEntry>;
+  decks: string[]; // Existing deck names, offered as suggestions
+  saveLabel: string;
+  onSave: (content: WordContent) => Promise<void>;
+  onCancel: () => void;
+}
+
+/**
+ * Form for a notebook entry's text. Used for inline edits and for adding a
+ * word by hand; the review schedule is never edited here.
+ */
+const WordEditor: React.FC<WordEditorProps> = ({ initial, decks, saveLabel, onSave, onCancel }) => {
+  const [draft, setDraft] = useState(() => toDraft(initial));
+  const [isSaving, setIsSaving] = useState(false);
+
+  const missing = TEXT_FIELDS.filter(f => f.required && !draft[f.key].trim());
+
+  const handleSave = async () => {
+    if (missing.length || isSaving) return;
+    const content = {} as WordContent;
+    TEXT_FIELDS.forEach(({ key, required }) => {
+      const value = draft[key].trim();
+      (content as Record<string, unknown>)[key] = value || (required ? '' : undefined);
+    });
+    LIST_FIELDS.forEach(({ key }) => { content[key] = splitList(draft[key]); });
+    content.tags = mergeTags(content.tags);
+    content.deck = normalizeDeck(draft.deck);
+    // Left unset for new words, so merging into an existing entry keeps its senses
+    if (initial?.senses) content.senses = syncSavedSense(initial, content);
+    setIsSaving(true);
+    try {
+      await onSave(content);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const inputClass = "mt-1 w-full bg-white border border-gray-200 rounded-xl py-2 px-3 text-sm font-semibold text-gray-700 focus:outline-none focus:ring-2 focus:ring-brand-500/20";
+
+  return (
+    <div className="space-y-3" onClick={e => e.stopPropagation()}>
+      {TEXT_FIELDS.map(({ key, label, multiline, required }) => (
+        <label key={key} className="block text-[10px] font-black text-brand-400 uppercase tracking-widest">
+          {label}{required && ' *'}
+          {multiline ? (
+            <textarea rows={2} value={draft[key]} onChange={e => setDraft({ ...draft, [key]: e.target.value })} className={`${inputClass} resize-none`} />
+          ) : (
+            <input type="text" value={draft[key]} onChange={e => setDraft({ ...draft, [key]: e.target.value })} className={inputClass} />
+          )}
+        </label>
+      ))}
+      <label className="block text-[10px] font-black text-brand-400 uppercase tracking-widest">
+        Deck
+        <input type="text" list="word-editor-decks" placeholder="No deck" value={draft.deck} onChange={e => setDraft({ ...draft, deck: e.target.value })} className={inputClass} />
+        <datalist id="word-editor-decks">
+          {decks.map(d => <option key={d} value={d} />)}
+        </datalist>
+      </label>
+      {LIST_FIELDS.map(({ key, label }) => (
+        <label key={key} className="block text-[10px] font-black text-brand-400 uppercase tracking-widest">
+          {label} <span className="normal-case tracking-normal text-gray-300">(comma separated)</span>
+          <input type="text" value={draft[key]} onChange={e => setDraft({ ...draft, [key]: e.target.value })} className={inputClass} />
+        </label>
+      ))}
+      <div className="flex gap-2 pt-1">
+        <button onClick={onCancel} className="flex-1 py-2 rounded-xl bg-gray-50 border border-gray-100 text-xs font-bold text-gray-500 flex items-center justify-center gap-1">
+          <X size={14} /> Cancel
+        </button>
+        <button
+          onClick={handleSave}
+          disabled={missing.length > 0 || isSaving}
+          className="flex-1 py-2 rounded-xl bg-brand-500 text-white text-xs font-bold flex items-center justify-center gap-1 disabled:opacity-50"
+        >
+          {isSaving ? <Loader2 size={14} className="animate-spin" /> : <Check size={14} />} {saveLabel}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default WordEditor;
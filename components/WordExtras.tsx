@@ -0,0 +1,78 @@
+import React from 'react';
+import { WordSense } from '../types';
+
+interface SenseLabelProps {
+  partOfSpeech?: string;
+  ipa?: string;
+}
+
+/**
+ * "noun · /bæŋk/" line shown above a definition.
+ */
+export const SenseLabel: React.FC<SenseLabelProps> = ({ partOfSpeech, ipa }) => {
+  if (!partOfSpeech && !ipa) return null;
+  return (
+    <div className="flex items-center gap-2 text-xs">
+      {partOfSpeech && <span className="font-black text-brand-500 uppercase tracking-widest">{partOfSpeech}</span>}
+      {ipa && <span className="font-medium text-gray-400">/{ipa.replace(/^\/|\/$/g, '')}/</span>}
+    </div>
+  );
+};
+
+interface WordExtrasProps {
+  senses?: WordSense[];
+  savedDefinition?: string; // Sense already shown as the main meaning; left out of "Other meanings"
+  variants?: string[];
+  family?: string[];
+  synonyms?: string[];
+  antonyms?: string[];
+  collocations?: string[];
+}
+
+const ChipGroup: React.FC<{ label: string; items?: string[]; className: string }> = ({ label, items, className }) => {
+  if (!items?.length) return null;
+  return (
+    <div>
+      <span className="text-[10px] font-black text-gray-400 uppercase tracking-widest block mb-1.5">{label}</span>
+      <div className="flex flex-wrap gap-1.5">
+        {items.map(item => (
+          <span key={item} className={`px-2 py-0.5 rounded-full text-xs font-bold ${className}`}>{item}</span>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+/**
+ * Other senses, forms, word family, synonyms, antonyms and collocations, for the Notebook and the review card back.
+ */
+const WordExtras: React.FC<WordExtrasProps> = ({ senses, savedDefinition, variants, family, synonyms, antonyms, collocations }) => {
+  const otherSenses = (senses || []).filter(s => s.definition !== savedDefinition);
+  const hasChips = [variants, family, synonyms, antonyms, collocations].some(list => list?.length);
+  if (!otherSenses.length && !hasChips) return null;
+
+  return (
+    <div className="space-y-3 text-left">
+      {otherSenses.length > 0 && (
+        <div>
+          <span className="text-[10px] font-black text-gray-400 uppercase tracking-widest block mb-1.5">Other meanings</span>
+          <ul className="space-y-2">
+            {otherSenses.map((s, i) => (
+              <li key={i} className="text-sm text-gray-600">
+                <SenseLabel partOfSpeech={s.partOfSpeech} ipa={s.ipa} />
+                <p className="font-semibold">{s.definition}{s.translation && <span className="text-teal-600"> · {s.translation}</span>}</p>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+      <ChipGroup label="Forms" items={variants} className="bg-gray-100 text-gray-600" />
+      <ChipGroup label="Word family" items={family} className="bg-purple-50 text-purple-500" />
+      <ChipGroup label="Synonyms" items={synonyms} className="bg-teal-50 text-teal-600" />
+      <ChipGroup label="Antonyms" items={antonyms} className="bg-orange-50 text-orange-500" />
+      <ChipGroup label="Collocations" items={collocations} className="bg-brand-50 text-brand-600" />
+    </div>
+  );
+};
+
+export default WordExtras;
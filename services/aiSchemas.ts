@@ -0,0 +1,141 @@
+
+import { DictionaryResult, PetMood, PetReaction, WordSense } from '../types';
+import { MAX_SUGGESTED_TAGS, mergeTags } from './decks';
+
+/**
+ * Runtime shape checks for structured model output. Each schema validates the
+ * parsed JSON and returns either a typed value or a list of problems that can
+ * be sent back to the model verbatim.
+ */
+export type ValidationResult<T> = { ok: true; value: T } | { ok: false; errors: string[] };
+
+export interface ResponseSchema<T> {
+  name: string;
+  validate: (raw: unknown) => ValidationResult<T>;
+}
+
+interface StringField {
+  optional?: boolean;
+  oneOf?: readonly string[];
+}
+
+export class AIResponseError extends Error {
+  constructor(public schema: string, public errors: string[], public raw: string) {
+    super(`模型返回的数据格式不正确 (${schema}): ${errors.join('; ')}`);
+    this.name = 'AIResponseError';
+  }
+}
+
+const isObject = (v: unknown): v is Record<string, unknown> => typeof v === 'object' && v !== null && !Array.isArray(v);
+
+/**
+ * Object of string fields. Strings are trimmed; optional fields that are
+ * missing or empty are left undefined.
+ */
+const stringObjectSchema = <T>(name: string, fields: Record<keyof T & string, StringField>): ResponseSchema<T> => ({
+  name,
+  validate: raw => {
+    if (!isObject(raw)) return { ok: false, errors: ['expected a JSON object'] };
+    const errors: string[] = [];
+    const value: Record<string, string | undefined> = {};
+    Object.entries<StringField>(fields).forEach(([key, spec]) => {
+      const v = raw[key];
+      if (v === undefined || v === null || (typeof v === 'string' && !v.trim())) {
+        if (!spec.optional) errors.push(`"${key}" is required`);
+        return;
+      }
+      if (typeof v !== 'string') {
+        errors.push(`"${key}" must be a string`);
+        return;
+      }
+      if (spec.oneOf && !spec.oneOf.includes(v.trim())) {
+        errors.push(`"${key}" must be one of ${spec.oneOf.join(', ')}`);
+        return;
+      }
+      value[key] = v.trim();
+    });
+    return errors.length ? { ok: false, errors } : { ok: true, value: value as T };
+  },
+});
+
+export const PET_MOODS: readonly PetMood[] = ['happy', 'sleepy', 'excited', 'proud'];
+
+const SENSE_SCHEMA = stringObjectSchema<WordSense>('sense', {
+  partOfSpeech: {},
+  ipa: { optional: true },
+  definition: {},
+  translation: { optional: true },
+  example: {},
+  visualDescription: { optional: true },
+});
+
+const MAX_SENSES = 6;
+
+// Optional list of short strings; non-string items are reported, empty ones dropped
+const stringList = (raw: Record<string, unknown>, key: string, errors: string[]): string[] | undefined => {
+  const v = raw[key];
+  if (v === undefined || v === null) return undefined;
+  if (!Array.isArray(v) || v.some(item => typeof item !== 'string')) {
+    errors.push(`"${key}" must be an array of strings`);
+    return undefined;
+  }
+  const items = (v as string[]).map(s => s.trim()).filter(Boolean);
+  return items.length ? items : undefined;
+};
+
+/**
+ * Senses are the source of truth; the flat definition/translation/example
+ * fields are filled from the first sense.
+ */
+export const DICTIONARY_SCHEMA: ResponseSchema<DictionaryResult> = {
+  name: 'dictionary',
+  validate: raw => {
+    if (!isObject(raw)) return { ok: false, errors: ['expected a JSON object'] };
+    const errors: string[] = [];
+    const identifiedWord = typeof raw.identifiedWord === 'string' ? raw.identifiedWord.trim() : '';
+    if (!identifiedWord) errors.push('"identifiedWord" is required');
+
+    const senses: WordSense[] = [];
+    if (!Array.isArray(raw.senses) || raw.senses.length === 0) {
+      errors.push('"senses" must be a non-empty array');
+    } else {
+      raw.senses.slice(0, MAX_SENSES).forEach((s, i) => {
+        const result = SENSE_SCHEMA.validate(s);
+        if (result.ok) senses.push(result.value);
+        else errors.push(...result.errors.map(e => `senses[${i}]: ${e}`));
+      });
+    }
+
+    const synonyms = stringList(raw, 'synonyms', errors);
+    const antonyms = stringList(raw, 'antonyms', errors);
+    const collocations = stringList(raw, 'collocations', errors);
+    const wordFamily = stringList(raw, 'wordFamily', errors);
+    const topics = stringList(raw, 'topics', errors);
+    const lemma = typeof raw.lemma === 'string' && raw.lemma.trim() ? raw.lemma.trim() : identifiedWord;
+    if (errors.length) return { ok: false, errors };
+
+    const [primary] = senses;
+    return {
+      ok: true,
+      value: {
+        identifiedWord,
+        definition: primary.definition,
+        translation: primary.translation,
+        example: primary.example,
+        visualDescription: primary.visualDescription,
+        senses,
+        lemma,
+        wordFamily,
+        synonyms,
+        antonyms,
+        collocations,
+        topics: mergeTags(topics)?.slice(0, MAX_SUGGESTED_TAGS),
+      },
+    };
+  },
+};
+
+export const PET_REACTION_SCHEMA = stringObjectSchema<PetReaction>('petReaction', {
+  text: {},
+  mood: { oneOf: PET_MOODS },
+});
@@ -0,0 +1,224 @@
+
+import { WordEntry } from '../types';
+import { createWordEntry, getSettings, getWords, saveWord } from './storageService';
+import { getCardImageBlob } from './imageCache';
+import { wordForms } from './wordFamilies';
+import { getLanguage } from './languages';
+import { mergeTags, normalizeDeck } from './decks';
+import { parseDelimited } from './delimited';
+import { createZip, ZipEntry } from './zipWriter';
+
+const NOTES_FILE = 'lingopet-notes.txt';
+const DECK_NAME = 'LingoPet';
+const EXPORT_COLUMNS = ['GUID', 'Deck', 'Word', 'Definition', 'Translation', 'Context', 'Image', 'Tags'];
+
+// Anki column names (case-insensitive) that map onto WordEntry fields
+const FIELD_ALIASES: Record<'word' | 'definition' | 'translation' | 'context', string[]> = {
+  word: ['word', 'front', 'expression', 'term', 'vocab', 'vocabulary'],
+  definition: ['definition', 'meaning', 'back', 'gloss'],
+  translation: ['translation', 'reading', 'native'],
+  context: ['context', 'example', 'sentence', 'example sentence'],
+};
+
+const EXPORT_TAG = 'lingopet';
+
+const SEPARATORS: Record<string, string> = { tab: '\t', comma: ',', semicolon: ';', pipe: '|', space: ' ' };
+
+export interface AnkiImportResult {
+  imported: number;
+  updated: number;
+  skipped: number;
+}
+
+const MEDIA_EXTENSIONS: Record<string, string> = {
+  'image/png': 'png',
+  'image/jpeg': 'jpg',
+  'image/webp': 'webp',
+  'image/gif': 'gif',
+  'image/svg+xml': 'svg',
+};
+
+const escapeHtml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+// Fields are HTML; tabs and newlines would break the row structure
+const toField = (text?: string) => escapeHtml(text || '').replace(/\t/g, ' ').replace(/\r?\n/g, '<br>');
+
+const stripHtml = (html: string) => {
+  const withBreaks = html.replace(/<br\s*\/?>/gi, ' ').replace(/\[sound:[^\]]*\]/g, '');
+  const doc = new DOMParser().parseFromString(withBreaks, 'text/html');
+  return (doc.body.textContent || '').replace(/\s+/g, ' ').trim();
+};
+
+// --- Export ---
+
+/**
+ * Builds a zip holding an Anki "Notes in Plain Text" file plus a media folder.
+ * Copy the media files into Anki's collection.media folder, then use File > Import on the text file.
+ */
+export const createAnkiExport = async (): Promise<Blob> => {
+  const words = await getWords();
+  const media: ZipEntry[] = [];
+  const rows: string[] = [];
+
+  for (const w of words) {
+    let imageField = '';
+    const blob = await getCardImageBlob(w);
+    if (blob) {
+      const fileName = `lingopet-${w.id}.${MEDIA_EXTENSIONS[blob.type] || 'png'}`;
+      media.push({ name: `media/${fileName}`, data: new Uint8Array(await blob.arrayBuffer()) });
+      imageField = `<img src="${fileName}">`;
+    }
+    // One sub-deck per language, and below it the word's own deck, e.g. LingoPet::Spanish::Travel
+    const deck = [DECK_NAME, getLanguage(w.language).name, w.deck].filter((name): name is string => !!name).map(name => name.replace(/::/g, ':')).join('::');
+    // Anki tags are space-separated
+    const tags = [EXPORT_TAG, ...(w.tags || []).map(tag => tag.replace(/\s+/g, '_'))].join(' ');
+    rows.push([w.id, deck, toField(w.word), toField(w.definition), toField(w.translation), toField(w.context), imageField, toField(tags)].join('\t'));
+  }
+
+  const header = [
+    '#separator:tab',
+    '#html:true',
+    '#guid column:1',
+    '#deck column:2',
+    `#tags column:${EXPORT_COLUMNS.length}`,
+    `#columns:${EXPORT_COLUMNS.join('\t')}`,
+  ];
+  const notes = new TextEncoder().encode([...header, ...rows].join('\n') + '\n');
+  return createZip([{ name: NOTES_FILE, data: notes }, ...media]);
+};
+
+export const downloadAnkiExport = async () => {
+  const blob = await createAnkiExport();
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = `lingopet-anki-${new Date().toISOString().split('T')[0]}.zip`;
+  a.click();
+  // Revoked later, as in downloadBackup, so the download isn't cut off
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
+
+// --- Import ---
+
+interface ParsedNotes {
+  headers: Record<string, string>;
+  rows: string[][];
+}
+
+const parseNotesFile = (text: string): ParsedNotes => {
+  const lines = text.replace(/^\uFEFF/, '').split(/\r?\n/);
+  const headers: Record<string, string> = {};
+  let bodyStart = 0;
+  while (bodyStart < lines.length && lines[bodyStart].startsWith('#')) {
+    const match = lines[bodyStart].match(/^#([^:]+):(.*)$/);
+    if (match) headers[match[1].trim().toLowerCase()] = match[2];
+    bodyStart++;
+  }
+  const rawSeparator = headers['separator'] ?? 'tab';
+  const separator = SEPARATORS[rawSeparator.toLowerCase()] ?? (rawSeparator || '\t');
+  return { headers, rows: parseDelimited(lines.slice(bodyStart).join('\n'), separator) };
+};
+
+// 0-based index from a "#deck column:2"-style header
+const headerColumn = (headers: Record<string, string>, key: string) => {
+  const index = Number(headers[key]) - 1;
+  return index >= 0 ? index : undefined;
+};
+
+type ColumnMapping = Partial<Record<keyof typeof FIELD_ALIASES | 'deck' | 'tags', number>>;
+
+/**
+ * Works out which column holds each WordEntry field, from the #columns header
+ * when present, otherwise positionally (word, definition, translation, context)
+ * skipping Anki's guid/notetype/deck/tags columns. Deck and tags come from
+ * their own headers.
+ */
+const resolveColumns = (headers: Record<string, string>, width: number): ColumnMapping => {
+  const special = { deck: headerColumn(headers, 'deck column'), tags: headerColumn(headers, 'tags column') };
+  const reserved = new Set(
+    [headerColumn(headers, 'guid column'), headerColumn(headers, 'notetype column'), special.deck, special.tags]
+      .filter((i): i is number => i !== undefined)
+  );
+  const mapping: ColumnMapping = {};
+
+  if (headers['columns']) {
+    headers['columns'].split(/\t|,|;|\|/).forEach((name, i) => {
+      const normalized = name.trim().toLowerCase();
+      (Object.keys(FIELD_ALIASES) as (keyof typeof FIELD_ALIASES)[]).forEach(field => {
+        if (mapping[field] === undefined && FIELD_ALIASES[field].includes(normalized)) mapping[field] = i;
+      });
+    });
+    if (mapping.word !== undefined) return { ...mapping, ...special };
+  }
+
+  const free = Array.from({ length: width }, (_, i) => i).filter(i => !reserved.has(i));
+  return { word: free[0], definition: free[1], translation: free[2], context: free[3], ...special };
+};
+
+/**
+ * Reverses the export's deck naming: "LingoPet::Spanish::Travel" is the deck
+ * "Travel", and a bare "LingoPet::Spanish" is no deck. Other Anki decks use
+ * their last level, except Anki's catch-all "Default".
+ */
+const parseDeck = (ankiDeck: string) => {
+  const levels = ankiDeck.split('::').map(level => level.trim()).filter(Boolean);
+  if (levels[0] === DECK_NAME) return levels.length > 2 ? normalizeDeck(levels[levels.length - 1]) : undefined;
+  const leaf = levels[levels.length - 1];
+  return leaf && leaf !== 'Default' ? normalizeDeck(leaf) : undefined;
+};
+
+// Anki tags are space-separated with spaces inside a tag written as "_"; the export's own marker tag is dropped
+const parseTags = (ankiTags: string) =>
+  mergeTags(ankiTags.split(/\s+/).filter(tag => tag && tag.toLowerCase() !== EXPORT_TAG).map(tag => tag.replace(/_/g, ' ')));
+
+/**
+ * Imports an Anki plain-text note export into the current target language.
+ * Each note goes through saveWord, so a word already in the notebook is
+ * updated rather than duplicated.
+ */
+export const importAnkiNotes = async (file: File): Promise<AnkiImportResult> => {
+  if (file.name.endsWith('.apkg') || file.name.endsWith('.colpkg')) {
+    throw new Error("暂不支持 .apkg 文件，请在 Anki 中选择「纯文本格式笔记 (Notes in Plain Text)」导出");
+  }
+  const { headers, rows } = parseNotesFile(await file.text());
+  if (rows.length === 0) throw new Error("文件中没有找到任何笔记");
+
+  const width = Math.max(...rows.map(r => r.length));
+  const columns = resolveColumns(headers, width);
+  const isHtml = headers['html'] !== 'false';
+  const read = (row: string[], index?: number) => {
+    if (index === undefined || row[index] === undefined) return '';
+    return isHtml ? stripHtml(row[index]) : row[index].trim();
+  };
+
+  const { targetLanguage } = await getSettings();
+  const existing = new Set((await getWords()).filter(w => w.language === targetLanguage).flatMap(wordForms));
+  const result: AnkiImportResult = { imported: 0, updated: 0, skipped: 0 };
+
+  for (const row of rows) {
+    const word = read(row, columns.word);
+    const definition = read(row, columns.definition);
+    if (!word || !definition) {
+      result.skipped++;
+      continue;
+    }
+    const entry: WordEntry = createWordEntry({
+      word,
+      language: targetLanguage,
+      definition,
+      translation: read(row, columns.translation) || undefined,
+      context: read(row, columns.context),
+      deck: parseDeck(read(row, columns.deck)),
+      tags: parseTags(read(row, columns.tags)),
+    });
+    await saveWord(entry);
+    if (existing.has(word.toLowerCase())) {
+      result.updated++;
+    } else {
+      existing.add(word.toLowerCase());
+      result.imported++;
+    }
+  }
+  return result;
+};
@@ -0,0 +1,169 @@
+
+import { WordEntry } from '../types';
+
+/**
+ * Hands-free lesson: the day's queue as one continuous playlist, with
+ * lock-screen controls through the Media Session API.
+ */
+
+// Silence after each spoken step
+export const STEP_GAP_MS = 700;
+
+// Time to recall the meaning before the answer is read
+export const RECALL_PAUSE_MS = 4000;
+
+export type LessonStepKind = 'word' | 'translation' | 'example' | 'recall' | 'answer';
+
+export interface LessonStep {
+  kind: LessonStepKind;
+  text?: string; // Nothing is spoken for the recall pause
+  language?: string; // Language code to speak `text` in
+  pauseMs: number; // Silence after the step
+}
+
+export interface LessonTrack {
+  word: WordEntry;
+  steps: LessonStep[];
+}
+
+/**
+ * Word → translation → example → pause for recall → answer (word and meaning
+ * again). Words without a translation fall back to their definition.
+ */
+export const buildLessonPlaylist = (words: WordEntry[], nativeLanguage: string): LessonTrack[] =>
+  words.map(word => {
+    const meaning = word.translation
+      ? { text: word.translation, language: nativeLanguage }
+      : { text: word.definition, language: word.language };
+    const steps: LessonStep[] = [
+      { kind: 'word', text: word.word, language: word.language, pauseMs: STEP_GAP_MS },
+      { kind: 'translation', ...meaning, pauseMs: STEP_GAP_MS },
+      { kind: 'example', text: word.context, language: word.language, pauseMs: STEP_GAP_MS },
+      { kind: 'recall', pauseMs: RECALL_PAUSE_MS },
+      { kind: 'answer', text: word.word, language: word.language, pauseMs: 300 },
+      { kind: 'answer', ...meaning, pauseMs: STEP_GAP_MS * 2 },
+    ];
+    return { word, steps: steps.filter(s => s.kind === 'recall' || s.text?.trim()) };
+  });
+
+// Resolves after `ms`, or straight away once `signal` aborts
+export const pause = (ms: number, signal: AbortSignal): Promise<void> =>
+  new Promise(resolve => {
+    if (signal.aborted) return resolve();
+    const done = () => {
+      clearTimeout(timer);
+      signal.removeEventListener('abort', done);
+      resolve();
+    };
+    const timer = setTimeout(done, ms);
+    signal.addEventListener('abort', done, { once: true });
+  });
+
+// --- Media Session ---
+
+export const isMediaSessionSupported = () => typeof navigator !== 'undefined' && 'mediaSession' in navigator;
+
+export interface MediaControls {
+  play: () => void;
+  pause: () => void;
+  next: () => void;
+  previous: () => void;
+  stop: () => void;
+}
+
+const ACTIONS: [MediaSessionAction, keyof MediaControls][] = [
+  ['play', 'play'],
+  ['pause', 'pause'],
+  ['nexttrack', 'next'],
+  ['previoustrack', 'previous'],
+  ['stop', 'stop'],
+];
+
+/**
+ * Routes lock-screen and headset buttons to `controls`. Returns a function
+ * that removes the handlers and clears the notification.
+ */
+export const bindMediaSession = (controls: MediaControls): (() => void) => {
+  if (!isMediaSessionSupported()) return () => undefined;
+  const session = navigator.mediaSession;
+  ACTIONS.forEach(([action, key]) => {
+    try {
+      session.setActionHandler(action, () => controls[key]());
+    } catch {
+      // Older browsers throw for actions they don't know
+    }
+  });
+  return () => {
+    ACTIONS.forEach(([action]) => {
+      try { session.setActionHandler(action, null); } catch { /* see above */ }
+    });
+    session.metadata = null;
+    session.playbackState = 'none';
+  };
+};
+
+export const setNowPlaying = (track: LessonTrack, position: number, total: number, playing: boolean) => {
+  if (!isMediaSessionSupported()) return;
+  navigator.mediaSession.metadata = new MediaMetadata({
+    title: track.word.word,
+    artist: track.word.translation || track.word.definition,
+    album: `LingoPet Audio Lesson · ${position + 1}/${total}`,
+  });
+  navigator.mediaSession.playbackState = playing ? 'playing' : 'paused';
+};
+
+// --- Keep-alive ---
+
+/**
+ * One second of 8 kHz 8-bit mono silence as a WAV file. Looping it keeps an
+ * audio element playing, which is what lets the tab keep running with the
+ * screen off and makes the browser show the lock-screen controls; speech
+ * synthesis alone counts as neither.
+ */
+const silentWav = () => {
+  const samples = 8000;
+  const buffer = new ArrayBuffer(44 + samples);
+  const view = new DataView(buffer);
+  const ascii = (offset: number, text: string) => Array.from(text).forEach((c, i) => view.setUint8(offset + i, c.charCodeAt(0)));
+  ascii(0, 'RIFF');
+  view.setUint32(4, 36 + samples, true);
+  ascii(8, 'WAVE');
+  ascii(12, 'fmt ');
+  view.setUint32(16, 16, true);
+  view.setUint16(20, 1, true); // PCM
+  view.setUint16(22, 1, true); // Mono
+  view.setUint32(24, samples, true); // Sample rate
+  view.setUint32(28, samples, true); // Byte rate
+  view.setUint16(32, 1, true); // Block align
+  view.setUint16(34, 8, true); // Bits per sample
+  ascii(36, 'data');
+  view.setUint32(40, samples, true);
+  new Uint8Array(buffer, 44).fill(128); // Unsigned 8-bit midpoint
+  return new Blob([buffer], { type: 'audio/wav' });
+};
+
+export interface KeepAlive {
+  resume(): void;
+  pause(): void;
+  release(): void;
+}
+
+/**
+ * Must be created from a user gesture, or the browser refuses to play it.
+ */
+export const createKeepAlive = (): KeepAlive => {
+  const url = URL.createObjectURL(silentWav());
+  const audio = new Audio(url);
+  audio.loop = true;
+  const resume = () => { audio.play().catch(e => console.warn("Keep-alive audio blocked", e)); };
+  resume();
+  return {
+    resume,
+    pause: () => audio.pause(),
+    release: () => {
+      audio.pause();
+      audio.removeAttribute('src');
+      URL.revokeObjectURL(url);
+    },
+  };
+};
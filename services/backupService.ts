@@ -0,0 +1,359 @@
+
+import { AppSettings, CachedCardImage, CachedLookup, DailyStats, PetState, ReviewDigest, ReviewEvent, WordEntry } from '../types';
+import { CURRENT_SCHEMA_VERSION, applyMigrations } from './migrations';
+import { DEFAULT_SETTINGS, StorageExport, blobToDataUrl, createWordEntry, dataUrlToBlob, exportAllData, exportMigrationBackup, replaceAllData } from './storageService';
+import { LANGUAGES } from './languages';
+import { WordRecording } from './recordings';
+import { mergeForms, wordForms } from './wordFamilies';
+
+const BACKUP_FORMAT = 'lingopet-backup';
+// 2: adds the review log and the lookup and card-image caches. Version 1 files restore with all of them empty
+// 3: adds speaking-drill recordings. Older files restore with none
+const BACKUP_VERSION = 3;
+
+// A card-image cache entry with its picture inlined as a data URL
+export type BackupCardImage = Omit<CachedCardImage, 'blob' | 'size'> & { dataUrl: string };
+
+// Likewise for a recording's audio
+export type BackupRecording = Omit<WordRecording, 'blob'> & { dataUrl: string };
+
+/**
+ * On-disk backup file. Images are inlined as data URLs keyed by the ref the records use.
+ */
+export interface BackupArchive {
+  format: typeof BACKUP_FORMAT;
+  version: number;
+  schemaVersion: number;
+  exportedAt: number;
+  words: WordEntry[];
+  pet?: PetState;
+  stats: DailyStats[];
+  settings: AppSettings;
+  images: Record<string, string>;
+  reviewEvents?: ReviewEvent[]; // Absent before version 2
+  reviewDigests?: ReviewDigest[];
+  lookups?: CachedLookup[];
+  cardImages?: BackupCardImage[];
+  recordings?: BackupRecording[]; // Absent before version 3
+}
+
+export type RestoreMode = 'merge' | 'replace';
+
+export interface ParsedBackup {
+  exportedAt: number;
+  data: StorageExport;
+}
+
+export interface BackupDiff {
+  wordsAdded: number; // Only in the backup
+  wordsUpdated: number; // In both, backup copy has newer review history
+  wordsKept: number; // In both, device copy is kept on merge
+  wordsOnlyOnDevice: number; // Removed by replace, kept by merge
+  statsDays: number;
+  reviewEvents: number; // Logged answers in the backup
+  postcardsAdded: number;
+  localPet?: PetState;
+  incomingPet?: PetState;
+}
+
+export class BackupValidationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'BackupValidationError';
+  }
+}
+
+const isObject = (v: unknown): v is Record<string, any> => typeof v === 'object' && v !== null && !Array.isArray(v);
+
+// Older schema versions may lack some of these; whatever is present must be a real number
+const SCHEDULE_FIELDS = ['addedAt', 'reviewLevel', 'reviewCount', 'nextReviewDate', 'ease', 'stability', 'lapses'] as const;
+
+const invalidWordField = (w: Record<string, any>): string | undefined => {
+  if (w.language !== undefined && !LANGUAGES.some(l => l.code === w.language)) return 'language';
+  if (['definition', 'context'].some(f => w[f] !== undefined && typeof w[f] !== 'string')) return 'text';
+  const field = SCHEDULE_FIELDS.find(f => w[f] !== undefined && !Number.isFinite(w[f]));
+  if (field) return field;
+  if (w.lastReviewedAt != null && !Number.isFinite(w.lastReviewedAt)) return 'lastReviewedAt';
+  return undefined;
+};
+
+// The entry in `words` sharing any form (lemma or variant) with `w`, as saveWord matches them
+const findSameWord = (words: WordEntry[], w: WordEntry) => {
+  const forms = wordForms(w);
+  return words.find(other => other.language === w.language && wordForms(other).some(f => forms.includes(f)));
+};
+
+const lastActivity = (w: WordEntry) => w.lastReviewedAt || w.addedAt || 0;
+
+// --- Export ---
+
+const toArchive = async (data: StorageExport): Promise<BackupArchive> => {
+  const images: Record<string, string> = {};
+  for (const [ref, blob] of Object.entries(data.images)) {
+    images[ref] = await blobToDataUrl(blob);
+  }
+  const cardImages: BackupCardImage[] = [];
+  for (const { blob, size, ...entry } of data.cardImages) {
+    cardImages.push({ ...entry, dataUrl: await blobToDataUrl(blob) });
+  }
+  const recordings: BackupRecording[] = [];
+  for (const { blob, ...recording } of data.recordings) {
+    recordings.push({ ...recording, dataUrl: await blobToDataUrl(blob) });
+  }
+  return {
+    format: BACKUP_FORMAT,
+    version: BACKUP_VERSION,
+    schemaVersion: data.schemaVersion,
+    exportedAt: Date.now(),
+    words: data.words,
+    pet: data.pet,
+    stats: data.stats,
+    settings: data.settings,
+    images,
+    reviewEvents: data.reviewEvents,
+    reviewDigests: data.reviewDigests,
+    lookups: data.lookups,
+    cardImages,
+    recordings,
+  };
+};
+
+export const createBackupArchive = async (): Promise<BackupArchive> => toArchive(await exportAllData());
+
+const saveArchive = (archive: BackupArchive, prefix: string) => {
+  const blob = new Blob([JSON.stringify(archive)], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = `${prefix}-${new Date().toISOString().split('T')[0]}.json`;
+  a.click();
+  // Some browsers start the download asynchronously; revoking straight away can cancel it
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
+
+export const downloadBackup = async () => {
+  saveArchive(await createBackupArchive(), 'lingopet-backup');
+};
+
+/**
+ * Saves the copy taken before a failed schema migration as an ordinary backup
+ * file; importing it into a release that migrates cleanly restores everything.
+ */
+export const downloadMigrationBackup = async () => {
+  const data = await exportMigrationBackup();
+  if (!data) throw new Error("没有找到迁移前的备份");
+  saveArchive(await toArchive(data), 'lingopet-premigration-backup');
+};
+
+// --- Import ---
+
+const validateArchive = (raw: unknown): BackupArchive => {
+  if (!isObject(raw) || raw.format !== BACKUP_FORMAT) {
+    throw new BackupValidationError("这不是 LingoPet 备份文件");
+  }
+  if (typeof raw.version !== 'number' || raw.version > BACKUP_VERSION) {
+    throw new BackupValidationError("备份文件格式版本过新，请先升级 LingoPet");
+  }
+  if (typeof raw.schemaVersion !== 'number' || raw.schemaVersion > CURRENT_SCHEMA_VERSION) {
+    throw new BackupValidationError("备份数据来自更新版本的 LingoPet，无法导入");
+  }
+  if (!Array.isArray(raw.words) || !Array.isArray(raw.stats)) {
+    throw new BackupValidationError("备份文件缺少单词或统计数据");
+  }
+  raw.words.forEach((w: unknown, i: number) => {
+    if (!isObject(w) || typeof w.id !== 'string' || typeof w.word !== 'string' || !w.word.trim()) {
+      throw new BackupValidationError(`第 ${i + 1} 个单词记录无效`);
+    }
+    const field = invalidWordField(w);
+    if (field) throw new BackupValidationError(`第 ${i + 1} 个单词 (${w.word}) 的 ${field} 字段无效`);
+  });
+  if (raw.pet !== undefined && (!isObject(raw.pet) || typeof raw.pet.name !== 'string' || typeof raw.pet.xp !== 'number')) {
+    throw new BackupValidationError("宠物数据无效");
+  }
+  if (!isObject(raw.images) || Object.values(raw.images).some(v => typeof v !== 'string' || !v.startsWith('data:'))) {
+    throw new BackupValidationError("图片数据无效");
+  }
+  if (raw.version >= 2 && (!Array.isArray(raw.reviewEvents) || !Array.isArray(raw.reviewDigests))) {
+    throw new BackupValidationError("备份文件缺少复习记录");
+  }
+  if (raw.version >= 2 && (!Array.isArray(raw.lookups) || !Array.isArray(raw.cardImages))) {
+    throw new BackupValidationError("备份文件缺少缓存数据");
+  }
+  (raw.reviewEvents || []).forEach((e: unknown, i: number) => {
+    if (!isObject(e) || typeof e.id !== 'string' || typeof e.wordId !== 'string' || typeof e.timestamp !== 'number') {
+      throw new BackupValidationError(`第 ${i + 1} 条复习记录无效`);
+    }
+  });
+  if ((raw.reviewDigests || []).some((d: unknown) => !isObject(d) || typeof d.date !== 'string' || typeof d.reviews !== 'number')) {
+    throw new BackupValidationError("复习统计数据无效");
+  }
+  if ((raw.lookups || []).some((l: unknown) => !isObject(l) || typeof l.key !== 'string' || !isObject(l.result) || typeof l.lastUsedAt !== 'number')) {
+    throw new BackupValidationError("查词缓存数据无效");
+  }
+  if ((raw.cardImages || []).some((c: unknown) =>
+    !isObject(c) || typeof c.key !== 'string' || typeof c.lastUsedAt !== 'number' || typeof c.dataUrl !== 'string' || !c.dataUrl.startsWith('data:'))) {
+    throw new BackupValidationError("卡片图片缓存无效");
+  }
+  if (raw.version >= 3 && !Array.isArray(raw.recordings)) {
+    throw new BackupValidationError("备份文件缺少录音数据");
+  }
+  if ((raw.recordings || []).some((r: unknown) =>
+    !isObject(r) || typeof r.wordId !== 'string' || typeof r.recordedAt !== 'number' || typeof r.dataUrl !== 'string' || !r.dataUrl.startsWith('data:'))) {
+    throw new BackupValidationError("录音数据无效");
+  }
+  return raw as BackupArchive;
+};
+
+/**
+ * Reads and validates a backup file, upgrading its records to the current schema.
+ */
+export const parseBackupFile = async (file: File): Promise<ParsedBackup> => {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(await file.text());
+  } catch (e) {
+    throw new BackupValidationError("无法解析备份文件 (不是合法的 JSON)");
+  }
+  const archive = validateArchive(raw);
+  const migrated = applyMigrations({ words: archive.words, pet: archive.pet, stats: archive.stats }, archive.schemaVersion);
+  // Fields still missing after the migrations get the defaults of a new word
+  const words = migrated.words.map(w => createWordEntry({ ...w, definition: w.definition || '', context: w.context || '' }));
+
+  const images: Record<string, Blob> = {};
+  Object.entries(archive.images).forEach(([ref, dataUrl]) => { images[ref] = dataUrlToBlob(dataUrl); });
+  const cardImages = (archive.cardImages || []).map(({ dataUrl, ...entry }): CachedCardImage => {
+    const blob = dataUrlToBlob(dataUrl);
+    return { ...entry, blob, size: blob.size };
+  });
+  const recordings = (archive.recordings || []).map(({ dataUrl, ...recording }): WordRecording => ({ ...recording, blob: dataUrlToBlob(dataUrl) }));
+
+  return {
+    exportedAt: archive.exportedAt,
+    data: {
+      schemaVersion: CURRENT_SCHEMA_VERSION,
+      ...migrated,
+      words,
+      settings: { ...DEFAULT_SETTINGS, ...(isObject(archive.settings) ? archive.settings : {}) },
+      images,
+      reviewEvents: archive.reviewEvents || [],
+      reviewDigests: archive.reviewDigests || [],
+      lookups: archive.lookups || [],
+      cardImages,
+      recordings,
+    },
+  };
+};
+
+export const diffBackup = (local: StorageExport, incoming: StorageExport): BackupDiff => {
+  const diff: BackupDiff = {
+    wordsAdded: 0,
+    wordsUpdated: 0,
+    wordsKept: 0,
+    wordsOnlyOnDevice: local.words.filter(w => !findSameWord(incoming.words, w)).length,
+    statsDays: incoming.stats.length,
+    reviewEvents: incoming.reviewEvents.length,
+    postcardsAdded: 0,
+    localPet: local.pet,
+    incomingPet: incoming.pet,
+  };
+
+  incoming.words.forEach(w => {
+    const existing = findSameWord(local.words, w);
+    if (!existing) diff.wordsAdded++;
+    else if (lastActivity(w) > lastActivity(existing)) diff.wordsUpdated++;
+    else diff.wordsKept++;
+  });
+
+  const localPostcards = new Set(local.pet?.postcardCollection || []);
+  diff.postcardsAdded = (incoming.pet?.postcardCollection || []).filter(p => !localPostcards.has(p)).length;
+  return diff;
+};
+
+const mergePets = (local?: PetState, incoming?: PetState): PetState | undefined => {
+  if (!local || !incoming) return local || incoming;
+  // The pet further along its journey wins; postcards from both are kept
+  const incomingAhead = incoming.cycle > local.cycle || (incoming.cycle === local.cycle && incoming.xp > local.xp);
+  const base = incomingAhead ? incoming : local;
+  const postcards = Array.from(new Set([...local.postcardCollection, ...incoming.postcardCollection]));
+  return { ...base, postcardCollection: postcards };
+};
+
+// Cache entries: whichever copy was used last
+const mergeCache = <T extends { key: string; lastUsedAt: number }>(local: T[], incoming: T[]) => {
+  const byKey = new Map(local.map(e => [e.key, e]));
+  incoming.forEach(e => {
+    const existing = byKey.get(e.key);
+    if (!existing || e.lastUsedAt > existing.lastUsedAt) byKey.set(e.key, e);
+  });
+  return Array.from(byKey.values());
+};
+
+const mergeData = (local: StorageExport, incoming: StorageExport): StorageExport => {
+  const words = [...local.words];
+  // Incoming word id -> id the word keeps on this device, so its logged answers follow it
+  const wordIds = new Map<string, string>();
+  incoming.words.forEach(w => {
+    const existing = findSameWord(words, w);
+    wordIds.set(w.id, existing ? existing.id : w.id);
+    if (!existing) {
+      words.push(w);
+      return;
+    }
+    // The newer copy wins, under the existing id and knowing every form either side has seen
+    const newer = lastActivity(w) > lastActivity(existing) ? w : existing;
+    words[words.indexOf(existing)] = {
+      ...newer,
+      id: existing.id,
+      variants: mergeForms(newer.word, [existing.word, w.word], existing.variants, w.variants),
+    };
+  });
+
+  // Events are unique by id, so restoring a backup of this device adds nothing twice
+  const events = new Map(local.reviewEvents.map(e => [e.id, e]));
+  incoming.reviewEvents.forEach(e => {
+    if (!events.has(e.id)) events.set(e.id, { ...e, wordId: wordIds.get(e.wordId) || e.wordId });
+  });
+
+  // A day compacted on both sides is the same history twice; the local digest is kept
+  const digests = new Map(local.reviewDigests.map(d => [d.date, d]));
+  incoming.reviewDigests.forEach(d => { if (!digests.has(d.date)) digests.set(d.date, d); });
+
+  // One recording per word: the latest attempt from either side
+  const recordings = new Map(local.recordings.map(r => [r.wordId, r]));
+  incoming.recordings.forEach(r => {
+    const wordId = wordIds.get(r.wordId) || r.wordId;
+    const existing = recordings.get(wordId);
+    if (!existing || r.recordedAt > existing.recordedAt) recordings.set(wordId, { ...r, wordId });
+  });
+
+  const stats = new Map(local.stats.map(s => [s.date, s]));
+  incoming.stats.forEach(s => {
+    const existing = stats.get(s.date);
+    stats.set(s.date, existing
+      ? { ...existing, wordsAdded: Math.max(existing.wordsAdded, s.wordsAdded), reviewSessionDone: existing.reviewSessionDone || s.reviewSessionDone }
+      : s);
+  });
+
+  return {
+    schemaVersion: CURRENT_SCHEMA_VERSION,
+    words,
+    pet: mergePets(local.pet, incoming.pet),
+    stats: Array.from(stats.values()),
+    settings: local.settings,
+    images: { ...local.images, ...incoming.images },
+    reviewEvents: Array.from(events.values()),
+    reviewDigests: Array.from(digests.values()),
+    lookups: mergeCache(local.lookups, incoming.lookups),
+    cardImages: mergeCache(local.cardImages, incoming.cardImages),
+    recordings: Array.from(recordings.values()),
+  };
+};
+
+export const restoreBackup = async (incoming: StorageExport, mode: RestoreMode) => {
+  if (mode === 'replace') {
+    await replaceAllData(incoming);
+    return;
+  }
+  const local = await exportAllData();
+  await replaceAllData(mergeData(local, incoming));
+};
@@ -0,0 +1,105 @@
+
+/**
+ * Thin promise wrapper around the LingoPet IndexedDB database.
+ */
+const DB_NAME = 'lingopet';
+const DB_VERSION = 6;
+
+export const STORES = {
+  WORDS: 'words',
+  PET: 'pet',
+  STATS: 'stats',
+  IMAGES: 'images',
+  META: 'meta',
+  LOOKUPS: 'lookups',
+  CARD_IMAGES: 'cardImages',
+  RECORDINGS: 'recordings',
+  REVIEW_EVENTS: 'reviewEvents',
+  REVIEW_DIGESTS: 'reviewDigests',
+  AUDIO_CLIPS: 'audioClips',
+} as const;
+
+export type StoreName = typeof STORES[keyof typeof STORES];
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const upgrade = (db: IDBDatabase) => {
+  if (!db.objectStoreNames.contains(STORES.WORDS)) db.createObjectStore(STORES.WORDS, { keyPath: 'id' });
+  if (!db.objectStoreNames.contains(STORES.PET)) db.createObjectStore(STORES.PET);
+  if (!db.objectStoreNames.contains(STORES.STATS)) db.createObjectStore(STORES.STATS, { keyPath: 'date' });
+  if (!db.objectStoreNames.contains(STORES.IMAGES)) db.createObjectStore(STORES.IMAGES);
+  if (!db.objectStoreNames.contains(STORES.META)) db.createObjectStore(STORES.META);
+  if (!db.objectStoreNames.contains(STORES.LOOKUPS)) db.createObjectStore(STORES.LOOKUPS, { keyPath: 'key' });
+  if (!db.objectStoreNames.contains(STORES.CARD_IMAGES)) db.createObjectStore(STORES.CARD_IMAGES, { keyPath: 'key' });
+  if (!db.objectStoreNames.contains(STORES.RECORDINGS)) db.createObjectStore(STORES.RECORDINGS, { keyPath: 'wordId' });
+  if (!db.objectStoreNames.contains(STORES.REVIEW_EVENTS)) {
+    const events = db.createObjectStore(STORES.REVIEW_EVENTS, { keyPath: 'id' });
+    events.createIndex('timestamp', 'timestamp');
+    events.createIndex('wordId', 'wordId');
+  }
+  if (!db.objectStoreNames.contains(STORES.REVIEW_DIGESTS)) db.createObjectStore(STORES.REVIEW_DIGESTS, { keyPath: 'date' });
+  if (!db.objectStoreNames.contains(STORES.AUDIO_CLIPS)) db.createObjectStore(STORES.AUDIO_CLIPS, { keyPath: 'key' });
+};
+
+export const openDB = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => upgrade(request.result);
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+      request.onblocked = () => reject(new Error("数据库被其他标签页占用，请关闭后重试"));
+    });
+    // Allow a retry after a failed open instead of caching the rejection forever
+    dbPromise.catch(() => { dbPromise = null; });
+  }
+  return dbPromise;
+};
+
+export const promisifyRequest = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+/**
+ * Runs `fn` inside a single transaction and resolves once the transaction commits.
+ * Any request error or thrown exception aborts every write made in `fn`.
+ * `fn` must only await IndexedDB requests, otherwise the transaction auto-commits early.
+ */
+export const withTransaction = async <T>(
+  storeNames: StoreName | StoreName[],
+  mode: IDBTransactionMode,
+  fn: (tx: IDBTransaction) => Promise<T> | T
+): Promise<T> => {
+  const db = await openDB();
+  const tx = db.transaction(storeNames, mode);
+  const done = new Promise<void>((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error || new Error('Transaction aborted'));
+  });
+  done.catch(() => { /* surfaced through the awaited path below */ });
+  try {
+    const result = await fn(tx);
+    await done;
+    return result;
+  } catch (e) {
+    try { tx.abort(); } catch { /* already finished */ }
+    throw e;
+  }
+};
+
+export const idbGet = async <T>(store: StoreName, key: IDBValidKey): Promise<T | undefined> =>
+  withTransaction(store, 'readonly', tx => promisifyRequest<T | undefined>(tx.objectStore(store).get(key)));
+
+export const idbGetAll = async <T>(store: StoreName): Promise<T[]> =>
+  withTransaction(store, 'readonly', tx => promisifyRequest<T[]>(tx.objectStore(store).getAll()));
+
+export const idbPut = async (store: StoreName, value: unknown, key?: IDBValidKey): Promise<void> => {
+  await withTransaction(store, 'readwrite', tx => promisifyRequest(tx.objectStore(store).put(value, key)));
+};
+
+export const idbDelete = async (store: StoreName, key: IDBValidKey): Promise<void> => {
+  await withTransaction(store, 'readwrite', tx => promisifyRequest(tx.objectStore(store).delete(key)));
+};
@@ -0,0 +1,50 @@
+
+import { WordEntry } from '../types';
+
+/**
+ * Decks and tags. A word sits in at most one deck (a name the learner makes
+ * up) and carries any number of free-form tags. Neither needs to be declared
+ * anywhere: the lists are whatever the words currently use.
+ */
+
+// Filter value for words that aren't in any deck
+export const NO_DECK = '\u0000none';
+
+export const MAX_SUGGESTED_TAGS = 3;
+
+export type NotebookSort = 'added' | 'level' | 'due';
+
+export const normalizeDeck = (deck?: string) => deck?.trim().replace(/\s+/g, ' ') || undefined;
+
+export const normalizeTag = (tag: string) => tag.trim().toLowerCase().replace(/^#/, '').replace(/\s+/g, ' ');
+
+// Lowercased and de-duplicated; undefined when nothing is left
+export const mergeTags = (...lists: (string[] | undefined)[]): string[] | undefined => {
+  const tags = Array.from(new Set(lists.flat().filter((t): t is string => !!t).map(normalizeTag).filter(Boolean)));
+  return tags.length ? tags : undefined;
+};
+
+const byName = (a: string, b: string) => a.localeCompare(b, undefined, { sensitivity: 'base' });
+
+export const listDecks = (words: WordEntry[]) =>
+  Array.from(new Set(words.map(w => normalizeDeck(w.deck)).filter((d): d is string => !!d))).sort(byName);
+
+export const listTags = (words: WordEntry[]) =>
+  Array.from(new Set(words.flatMap(w => w.tags || []))).sort(byName);
+
+// `deck` is a deck name, NO_DECK, or empty for every deck
+export const inDeck = (word: WordEntry, deck?: string) => {
+  if (!deck) return true;
+  const own = normalizeDeck(word.deck);
+  return deck === NO_DECK ? !own : own === deck;
+};
+
+export const hasTag = (word: WordEntry, tag?: string) => !tag || !!word.tags?.includes(tag);
+
+const SORTERS: Record<NotebookSort, (a: WordEntry, b: WordEntry) => number> = {
+  added: (a, b) => b.addedAt - a.addedAt, // Newest first
+  level: (a, b) => a.reviewLevel - b.reviewLevel || b.addedAt - a.addedAt, // Weakest first
+  due: (a, b) => a.nextReviewDate - b.nextReviewDate, // Soonest first
+};
+
+export const sortWords = (words: WordEntry[], sort: NotebookSort) => [...words].sort(SORTERS[sort]);
@@ -0,0 +1,213 @@
+
+import { EnrichmentJob } from '../types';
+import { createEntryFromResult, lookupWord } from './lookupCache';
+import { wordForms } from './wordFamilies';
+import { getDailyStats, getImportQueue, getSettings, getWords, saveImportQueue, saveWord, updateDailyStats } from './storageService';
+import { parseDelimited } from './delimited';
+import { getLanguagePair } from './languages';
+
+/**
+ * Background queue that turns bare words into notebook entries via
+ * lookupWord, so re-importing a list is served from the notebook and the
+ * lookup cache instead of paying for a request per word. Card images are not generated here; ReviewSession creates
+ * them on demand the first time a word is shown. Unfinished jobs are kept in
+ * storage, so a reload picks the batch up where it left off.
+ */
+const CONCURRENCY = 3;
+const MAX_ATTEMPTS = 3;
+const RETRY_BASE_MS = 1500;
+
+export interface ParsedWordList {
+  items: { input: string; hint?: string }[];
+  duplicates: number;
+}
+
+type Listener = (jobs: EnrichmentJob[]) => void;
+
+let jobs: EnrichmentJob[] = [];
+let running = 0;
+const listeners = new Set<Listener>();
+
+// Writes are chained so an older snapshot never lands after a newer one
+let persistChain: Promise<void> = Promise.resolve();
+
+const persist = () => {
+  const unfinished = jobs.filter(j => j.status !== 'done').map(j => ({ ...j }));
+  persistChain = persistChain
+    .then(() => saveImportQueue(unfinished))
+    .catch(e => console.warn("Failed to save import queue", e));
+};
+
+const notify = () => {
+  const snapshot = jobs.map(j => ({ ...j }));
+  listeners.forEach(l => l(snapshot));
+  persist();
+};
+
+const HEADER_CELLS = ['word', 'words', 'term', 'vocabulary', 'vocab'];
+
+/**
+ * Accepts one word per line, a single comma-separated line, or CSV/TSV where
+ * the first column is the word and the optional second column is a hint.
+ */
+export const parseWordList = (text: string): ParsedWordList => {
+  const trimmed = text.trim();
+  if (!trimmed) return { items: [], duplicates: 0 };
+
+  const lines = trimmed.split(/\r?\n/);
+  let rows: string[][];
+  if (trimmed.includes('\t')) rows = parseDelimited(trimmed, '\t');
+  else if (lines.length === 1) rows = trimmed.split(/[,;]/).map(w => [w]);
+  else if (trimmed.includes(',')) rows = parseDelimited(trimmed, ',');
+  else rows = lines.map(l => [l]);
+
+  if (rows.length > 0 && HEADER_CELLS.includes(rows[0][0]?.trim().toLowerCase())) rows = rows.slice(1);
+
+  const seen = new Set<string>();
+  const items: ParsedWordList['items'] = [];
+  let duplicates = 0;
+  rows.forEach(row => {
+    const input = (row[0] || '').trim();
+    if (!input) return;
+    const key = input.toLowerCase();
+    if (seen.has(key)) {
+      duplicates++;
+      return;
+    }
+    seen.add(key);
+    const hint = row[1]?.trim();
+    items.push(hint ? { input, hint } : { input });
+  });
+  return { items, duplicates };
+};
+
+// Saves run one at a time so saveWord's duplicate check and the wordsAdded counter never race
+let saveChain: Promise<void> = Promise.resolve();
+
+const saveSerially = (fn: () => Promise<void>): Promise<void> => {
+  const next = saveChain.then(fn);
+  saveChain = next.catch(() => undefined);
+  return next;
+};
+
+const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+const processJob = async (job: EnrichmentJob) => {
+  job.status = 'running';
+  notify();
+
+  while (job.attempts < MAX_ATTEMPTS) {
+    job.attempts++;
+    try {
+      const query = job.hint ? `${job.input} (as used in: "${job.hint}")` : job.input;
+      const { data, source } = await lookupWord(query, job.languages);
+      if (!data?.identifiedWord) throw new Error("模型没有返回单词释义");
+      // Already in the notebook (saved since it was queued): nothing to add
+      if (source !== 'notebook') {
+        await saveSerially(async () => {
+          const entry = createEntryFromResult(data, job.languages.target.code, 0, { tagTopics: job.tagTopics });
+          const saved = await saveWord(entry);
+          if (saved.id !== entry.id) return; // Merged into an existing lemma, not a new word
+          const stats = await getDailyStats();
+          await updateDailyStats({ wordsAdded: (stats.wordsAdded || 0) + 1 });
+        });
+      }
+      job.status = 'done';
+      job.savedWord = data.identifiedWord;
+      job.error = undefined;
+      notify();
+      return;
+    } catch (e: any) {
+      job.error = e?.message || String(e);
+      if (job.attempts < MAX_ATTEMPTS) {
+        notify();
+        await wait(RETRY_BASE_MS * Math.pow(2, job.attempts - 1));
+      }
+    }
+  }
+  // One bad word never stops the batch; it is just left for a manual retry
+  job.status = 'failed';
+  notify();
+};
+
+const pump = () => {
+  while (running < CONCURRENCY) {
+    const next = jobs.find(j => j.status === 'pending');
+    if (!next) return;
+    running++;
+    processJob(next).finally(() => {
+      running--;
+      pump();
+    });
+  }
+};
+
+/**
+ * Adds words to the queue, skipping ones already in the notebook or already queued.
+ * Returns how many were actually enqueued.
+ */
+export const enqueueWords = async (items: ParsedWordList['items']): Promise<number> => {
+  const settings = await getSettings();
+  const languages = getLanguagePair(settings);
+  const language = languages.target.code;
+  const sameLanguage = jobs.filter(j => j.languages.target.code === language);
+  const known = new Set([
+    ...(await getWords()).filter(w => w.language === language).flatMap(wordForms),
+    ...sameLanguage.filter(j => j.status !== 'failed').map(j => j.input.toLowerCase()),
+  ]);
+  const failed = new Map(sameLanguage.filter(j => j.status === 'failed').map(j => [j.input.toLowerCase(), j]));
+  const fresh = items.filter(item => !known.has(item.input.toLowerCase()));
+  fresh.forEach(item => {
+    const job: EnrichmentJob = { id: crypto.randomUUID(), ...item, languages, tagTopics: settings.suggestTags, status: 'pending', attempts: 0 };
+    // A word that failed before is retried in place rather than listed twice
+    const previous = failed.get(item.input.toLowerCase());
+    if (previous) Object.assign(previous, { ...job, id: previous.id, hint: item.hint, error: undefined });
+    else jobs.push(job);
+  });
+  notify();
+  pump();
+  return fresh.length;
+};
+
+let resumed = false;
+
+/**
+ * Puts back the jobs left unfinished by the last visit and starts on them.
+ * Jobs that were mid-request are simply asked again. Safe to call more than once.
+ */
+export const resumeQueue = async () => {
+  if (resumed) return;
+  resumed = true;
+  const saved = await getImportQueue();
+  const current = new Set(jobs.map(j => j.id));
+  const restored = saved
+    .filter(j => !current.has(j.id))
+    .map(j => (j.status === 'running' ? { ...j, status: 'pending' as const, attempts: 0 } : j));
+  if (!restored.length) return;
+  jobs = [...restored, ...jobs];
+  notify();
+  pump();
+};
+
+export const retryFailed = () => {
+  jobs.forEach(j => {
+    if (j.status === 'failed') {
+      j.status = 'pending';
+      j.attempts = 0;
+      j.error = undefined;
+    }
+  });
+  notify();
+  pump();
+};
+
+export const clearFinished = () => {
+  jobs = jobs.filter(j => j.status === 'pending' || j.status === 'running');
+  notify();
+};
+
+export const subscribeToQueue = (listener: Listener) => {
+  listeners.add(listener);
+  listener(jobs.map(j => ({ ...j })));
+  return () => { listeners.delete(listener); };
+};
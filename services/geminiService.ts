@@ -1,4 +1,11 @@
 
+import { DictionaryResult, PetReaction } from '../types';
+import { LanguagePair } from './languages';
+import { DEFAULT_TEXT_BASE_URLS, TextMessage, TextProvider, createTextProvider, isTextProviderId } from './textProviders';
+import { DICTIONARY_SCHEMA, PET_REACTION_SCHEMA, AIResponseError, ResponseSchema, ValidationResult } from './aiSchemas';
+import { ImageProvider, ImageRequestOptions, createImageProvider, isImageProviderId } from './imageProviders';
+import { DEFAULT_TTS_BASE_URLS, TtsProvider, createTtsProvider, isTtsProviderId } from './ttsProviders';
+
 /**
  * 核心配置诊断
  */
@@ -7,22 +14,42 @@ const getEnv = (key: string, fallback: string = "") => {
     return val && val !== "undefined" ? val : fallback;
 };
 
+const textProviderId = getEnv('TEXT_API_PROVIDER', 'openai').toLowerCase();
+const TEXT_PROVIDER = isTextProviderId(textProviderId) ? textProviderId : 'openai';
+const imageProviderId = getEnv('IMAGE_API_PROVIDER', 'seedream').toLowerCase();
+const IMAGE_PROVIDER = isImageProviderId(imageProviderId) ? imageProviderId : 'seedream';
+const ttsProviderId = getEnv('TTS_API_PROVIDER', 'browser').toLowerCase();
+const TTS_PROVIDER = isTtsProviderId(ttsProviderId) ? ttsProviderId : 'browser';
+
 export const CURRENT_CONFIG = {
+    // openai (兼容格式) | gemini | ollama
+    textProvider: TEXT_PROVIDER,
     // 默认值设为空，这样如果没配置，我们会直接看到报错，而不是看到错误的默认模型
     textModel: getEnv('TEXT_API_MODEL', 'MODEL_NOT_CONFIGURED'),
-    textBaseUrl: getEnv('TEXT_API_BASE_URL', '/api/proxy/text').replace(/\/$/, ''),
+    textBaseUrl: getEnv('TEXT_API_BASE_URL', DEFAULT_TEXT_BASE_URLS[TEXT_PROVIDER]).replace(/\/$/, ''),
+    textJsonMode: getEnv('TEXT_API_JSON_MODE', 'true') !== 'false',
+    // seedream (GMI 队列) | openai (Images 兼容格式)
+    imageProvider: IMAGE_PROVIDER,
     imageModel: getEnv('IMAGE_API_MODEL', 'seedream-4-0-250828'),
     imageBaseUrl: getEnv('IMAGE_API_BASE_URL', '/api/proxy/image').replace(/\/$/, ''),
+    // browser (系统语音) | openai (/v1/audio/speech，音频按单词缓存)
+    ttsProvider: TTS_PROVIDER,
+    ttsModel: getEnv('TTS_API_MODEL', 'tts-1'),
+    ttsBaseUrl: getEnv('TTS_API_BASE_URL', DEFAULT_TTS_BASE_URLS[TTS_PROVIDER]).replace(/\/$/, ''),
     hasTextKey: !!getEnv('TEXT_API_KEY'),
-    hasImageKey: !!getEnv('IMAGE_API_KEY')
+    hasImageKey: !!getEnv('IMAGE_API_KEY'),
+    hasTtsKey: !!getEnv('TTS_API_KEY')
 };
 
 // 【重要】在浏览器控制台打印配置信息，请刷新页面查看
 console.log("%c LingoPet 启动诊断 %c", "background:#FFAE0A;color:white;padding:2px 5px;border-radius:3px", "");
+console.log("-> 文本服务 (TEXT_API_PROVIDER):", CURRENT_CONFIG.textProvider);
 console.log("-> 文本模型 (TEXT_API_MODEL):", CURRENT_CONFIG.textModel);
 console.log("-> 文本地址 (TEXT_API_BASE_URL):", CURRENT_CONFIG.textBaseUrl);
 console.log("-> 文本密钥状态:", CURRENT_CONFIG.hasTextKey ? "✅ 已设置" : "❌ 未设置");
+console.log("-> 图像服务 (IMAGE_API_PROVIDER):", CURRENT_CONFIG.imageProvider);
 console.log("-> 图像模型 (IMAGE_API_MODEL):", CURRENT_CONFIG.imageModel);
+console.log("-> 语音服务 (TTS_API_PROVIDER):", CURRENT_CONFIG.ttsProvider);
 
 /**
  * 辅助：生成占位图
@@ -32,145 +59,120 @@ function getPlaceholder(text: string, color: string = "#E5E7EB") {
     return `data:image/svg+xml;base64,${btoa(svg)}`;
 }
 
+const textProvider: TextProvider = createTextProvider(CURRENT_CONFIG.textProvider, {
+    apiKey: getEnv('TEXT_API_KEY'),
+    model: CURRENT_CONFIG.textModel,
+    baseUrl: CURRENT_CONFIG.textBaseUrl,
+    jsonMode: CURRENT_CONFIG.textJsonMode,
+});
+
+export const getTextProvider = () => textProvider;
+
 /**
- * OpenAI 兼容格式文本请求
+ * 与具体后端无关的文本请求。不支持 JSON 模式的后端改为在提示词中要求只输出 JSON。
  */
-async function callOpenAITextAPI(messages: any[], jsonMode: boolean = true) {
-    const apiKey = (process.env as any).TEXT_API_KEY;
-    
-    if (!apiKey) throw new Error("缺少 TEXT_API_KEY，请检查 Vercel 环境变量");
+async function callTextAPI(messages: TextMessage[], jsonMode: boolean = true): Promise<string> {
+    if (textProvider.requiresKey && !CURRENT_CONFIG.hasTextKey) throw new Error("缺少 TEXT_API_KEY，请检查 Vercel 环境变量");
     if (CURRENT_CONFIG.textModel === 'MODEL_NOT_CONFIGURED') throw new Error("缺少 TEXT_API_MODEL，请在环境变量中设置模型名称");
 
-    const url = `${CURRENT_CONFIG.textBaseUrl}/v1/chat/completions`;
-    
-    const payload: any = {
-        model: CURRENT_CONFIG.textModel,
-        messages: messages,
-        temperature: 0.7
-    };
-
-    // MiniMax 或某些模型可能不支持 response_format，如果报错 400，可尝试关闭此项
-    if (jsonMode) {
-        payload.response_format = { type: "json_object" };
-    }
-
-    const response = await fetch(url, {
-        method: 'POST',
-        headers: {
-            'Content-Type': 'application/json',
-            'Authorization': `Bearer ${apiKey}`
-        },
-        body: JSON.stringify(payload)
-    });
+    const prompt = jsonMode && !textProvider.capabilities.jsonMode
+        ? [...messages, { role: 'system' as const, content: 'Reply with the raw JSON object only. No Markdown, no commentary.' }]
+        : messages;
 
-    if (!response.ok) {
-        const errorBody = await response.text();
-        throw new Error(`[${response.status}] 请求失败。地址: ${url} 模型: ${CURRENT_CONFIG.textModel}。 错误详情: ${errorBody.substring(0, 200)}`);
-    }
+    return await textProvider.complete(prompt, { json: jsonMode });
+}
 
-    const data = await response.json();
-    const content = data.choices?.[0]?.message?.content;
-    
-    if (jsonMode) {
-        try {
-            // 清理模型可能返回的 Markdown 标记
-            const cleanContent = content.replace(/```json/g, '').replace(/```/g, '').trim();
-            return JSON.parse(cleanContent);
-        } catch (e) {
-            console.warn("JSON解析失败，尝试直接返回内容:", content);
-            throw new Error("模型未返回合法的 JSON 格式");
-        }
+const parseAndValidate = <T>(content: string, schema: ResponseSchema<T>): ValidationResult<T> => {
+    let parsed: unknown;
+    try {
+        // 清理模型可能返回的 Markdown 标记
+        parsed = JSON.parse(content.replace(/```json/g, '').replace(/```/g, '').trim());
+    } catch (e) {
+        return { ok: false, errors: ['reply is not valid JSON'] };
     }
-    return content;
-}
+    return schema.validate(parsed);
+};
 
 /**
- * GMI Cloud Seedream 异步生成
+ * 结构化请求：按 schema 校验返回值。不合格时把错误发回模型修正一次，仍不合格才抛出 AIResponseError。
  */
-async function callSeedreamAsync(prompt: string): Promise<string> {
-    const apiKey = (process.env as any).IMAGE_API_KEY;
-    if (!apiKey) throw new Error("缺少 IMAGE_API_KEY");
-
-    const baseUrl = CURRENT_CONFIG.imageBaseUrl;
-    
-    // 1. 提交任务
-    const createUrl = `${baseUrl}/api/v1/ie/requestqueue/apikey/requests?key=${apiKey}`;
-    const createRes = await fetch(createUrl, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-            model: CURRENT_CONFIG.imageModel,
-            prompt: prompt,
-            parameters: { aspect_ratio: "1:1" }
-        })
-    });
-
-    if (!createRes.ok) {
-        const err = await createRes.text();
-        throw new Error(`图片提交失败 [${createRes.status}]: ${err}`);
-    }
-
-    const taskData = await createRes.json();
-    const requestId = taskData.id || taskData.requestId;
-
-    // 2. 轮询
-    const pollUrl = `${baseUrl}/api/v1/ie/requestqueue/apikey/requests/${requestId}?key=${apiKey}`;
-    let attempts = 0;
-    while (attempts < 60) {
-        await new Promise(r => setTimeout(r, 4000));
-        const statusRes = await fetch(pollUrl);
-        if (!statusRes.ok) continue;
-
-        const status = await statusRes.json();
-        if (status.status === 'SUCCEEDED' || status.done === true) {
-            const result = status.response || status.result;
-            const base64 = result?.generatedImages?.[0]?.image?.imageBytes || result?.imageBytes;
-            if (base64) return `data:image/png;base64,${base64}`;
-        }
-        if (status.status === 'FAILED') throw new Error("生成任务失败");
-        attempts++;
-    }
-    throw new Error("生成任务超时");
+async function callStructuredAPI<T>(messages: TextMessage[], schema: ResponseSchema<T>): Promise<T> {
+    const content = await callTextAPI(messages);
+    const first = parseAndValidate(content, schema);
+    if (first.ok) return first.value;
+
+    console.warn(`模型返回不合格 (${schema.name})，尝试修正:`, first.errors, content);
+    const repaired = await callTextAPI([
+        ...messages,
+        { role: 'assistant', content },
+        { role: 'user', content: `Your reply was invalid: ${first.errors.join('; ')}. Reply again with only the corrected JSON object.` },
+    ]);
+    const second = parseAndValidate(repaired, schema);
+    if (second.ok) return second.value;
+    throw new AIResponseError(schema.name, second.errors, repaired);
 }
 
-export const queryDictionary = async (userInput: string) => {
-    const messages = [
+const imageProvider: ImageProvider = createImageProvider(CURRENT_CONFIG.imageProvider, {
+    apiKey: getEnv('IMAGE_API_KEY'),
+    model: CURRENT_CONFIG.imageModel,
+    baseUrl: CURRENT_CONFIG.imageBaseUrl,
+});
+
+export const getImageProvider = () => imageProvider;
+
+const ttsProvider: TtsProvider = createTtsProvider(CURRENT_CONFIG.ttsProvider, {
+    apiKey: getEnv('TTS_API_KEY'),
+    model: CURRENT_CONFIG.ttsModel,
+    baseUrl: CURRENT_CONFIG.ttsBaseUrl,
+});
+
+export const getTtsProvider = () => ttsProvider;
+
+export const queryDictionary = async (userInput: string, { target, native }: LanguagePair): Promise<DictionaryResult> => {
+    const messages: TextMessage[] = [
         { 
             role: "system", 
-            content: "You are a professional language tutor. Return ONLY a JSON object: { \"identifiedWord\": \"...\", \"definition\": \"...\", \"translation\": \"(Chinese)\", \"example\": \"...\", \"visualDescription\": \"(Scene for AI Image)\" }" 
+            content: `You are a professional ${target.name} tutor for a native ${native.name} speaker. If the input is not ${target.name}, identify the ${target.name} word the learner means. List its common senses, most frequent first (at most 4). Return ONLY a JSON object: { "identifiedWord": "(${target.name} word)", "lemma": "(dictionary form of identifiedWord, e.g. run for ran)", "senses": [{ "partOfSpeech": "(noun, verb, adjective... in English)", "ipa": "(IPA pronunciation)", "definition": "(simple ${target.name} definition)", "translation": "(${native.name})", "example": "(${target.name} sentence)", "visualDescription": "(Scene for AI Image)" }], "synonyms": ["(${target.name})"], "antonyms": ["(${target.name})"], "collocations": ["(common ${target.name} phrase using the word)"], "wordFamily": ["(other ${target.name} lemmas derived from the same root, e.g. happiness for happy)"], "topics": ["(1-3 short lowercase English topic tags, e.g. travel, business, emotions)"] }` 
         },
         { role: "user", content: `Explain: "${userInput}"` }
     ];
-    return await callOpenAITextAPI(messages);
+    return await callStructuredAPI(messages, DICTIONARY_SCHEMA);
 };
 
-export const generateCardImage = async (word: string, context?: string, visualDescription?: string): Promise<string> => {
-    try {
-        const prompt = `3D digital art: ${word}. ${visualDescription || context}. White background.`;
-        return await callSeedreamAsync(prompt);
-    } catch (e) {
-        console.error("Image failed:", e);
-        return getPlaceholder(word, "#FBBF24");
-    }
+export const cardImagePrompt = (word: string, context?: string, visualDescription?: string) =>
+    `3D digital art: ${word}. ${visualDescription || context}. White background.`;
+
+export const cardImagePlaceholder = (word: string) => getPlaceholder(word, "#FBBF24");
+
+/**
+ * 生成单词卡图片。失败直接抛出，由 imageCache 决定是否回退到占位图 (占位图不入缓存)。
+ */
+export const generateCardImage = async (
+    word: string,
+    context?: string,
+    visualDescription?: string,
+    options?: ImageRequestOptions
+): Promise<string> => {
+    return await imageProvider.generate(cardImagePrompt(word, context, visualDescription), options);
 };
 
 export const generatePetSprite = async (stage: number): Promise<string> => {
     const stages = ["mystical egg", "baby creature", "teen creature", "mighty guardian"];
     const prompt = `Cute 3D ${stages[stage]}, character design, white background.`;
     try {
-        return await callSeedreamAsync(prompt);
+        return await imageProvider.generate(prompt);
     } catch (e) {
         return getPlaceholder("Pet", "#FCD34D");
     }
 };
 
-export const generatePetReaction = async (petState: any, stats: any, trigger: string) => {
-    const messages = [
+export const generatePetReaction = async (petState: any, stats: any, trigger: string): Promise<PetReaction> => {
+    const messages: TextMessage[] = [
         { role: "system", content: "Respond as a cute pet in JSON: { \"text\": \"...\", \"mood\": \"happy|sleepy|excited|proud\" }" },
         { role: "user", content: `The pet just experienced: ${trigger}` }
     ];
     try {
-        return await callOpenAITextAPI(messages);
+        return await callStructuredAPI(messages, PET_REACTION_SCHEMA);
     } catch (e) {
         return { text: "Wow!", mood: "happy" };
     }
@@ -179,7 +181,7 @@ export const generatePetReaction = async (petState: any, stats: any, trigger: st
 export const generatePostcard = async (petName: string): Promise<string> => {
     const prompt = `Anime style postcard of ${petName} at a landmark.`;
     try {
-        return await callSeedreamAsync(prompt);
+        return await imageProvider.generate(prompt);
     } catch (e) {
         return getPlaceholder("Postcard", "#6366F1");
     }
@@ -0,0 +1,230 @@
+
+import { CachedCardImage, ImageRefreshPolicy, WordEntry } from '../types';
+import { STORES, idbGet, idbPut, promisifyRequest, withTransaction } from './db';
+import { cardImagePlaceholder, cardImagePrompt, generateCardImage } from './geminiService';
+import { ImageProgress, ImageRequestOptions, abortError, isAbortError } from './imageProviders';
+import { dataUrlToBlob, getImageBlob, getSettings } from './storageService';
+
+export const IMAGE_CACHE_BUDGET_BYTES = 50 * 1024 * 1024;
+export const PREFETCH_AHEAD = 3;
+
+const WEEK_MS = 7 * 24 * 60 * 60 * 1000;
+
+export interface CardImageOptions extends ImageRequestOptions {
+  refresh?: boolean; // Regenerate even if a cached image exists
+}
+
+// --- Keys and object URLs ---
+
+const hashPrompt = async (prompt: string) => {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(prompt));
+  return Array.from(new Uint8Array(digest).slice(0, 8)).map(b => b.toString(16).padStart(2, '0')).join('');
+};
+
+/**
+ * Same word with the same prompt shares one image; editing the context or the
+ * visual description yields a new key, and the old image ages out via LRU.
+ */
+export const cardImageKey = async (word: WordEntry) =>
+  `${word.language}:${word.word.toLowerCase()}:${await hashPrompt(cardImagePrompt(word.word, word.context, word.visualDescription))}`;
+
+const objectUrls = new Map<string, string>();
+
+const revokeUrl = (key: string) => {
+  const url = objectUrls.get(key);
+  if (url) URL.revokeObjectURL(url);
+  objectUrls.delete(key);
+};
+
+const urlFor = (key: string, blob: Blob, replace = false) => {
+  if (replace) revokeUrl(key);
+  const existing = objectUrls.get(key);
+  if (existing) return existing;
+  const url = URL.createObjectURL(blob);
+  objectUrls.set(key, url);
+  return url;
+};
+
+// --- Storage ---
+
+const isStale = (entry: CachedCardImage, policy: ImageRefreshPolicy) =>
+  policy === 'weekly' && Date.now() - entry.createdAt > WEEK_MS;
+
+const touch = (entry: CachedCardImage) =>
+  idbPut(STORES.CARD_IMAGES, { ...entry, lastUsedAt: Date.now() }).catch(() => undefined);
+
+// Drops least-recently-used images until the cache fits in IMAGE_CACHE_BUDGET_BYTES
+const evictOverBudget = async () => {
+  const evicted = await withTransaction(STORES.CARD_IMAGES, 'readwrite', async tx => {
+    const store = tx.objectStore(STORES.CARD_IMAGES);
+    const all = await promisifyRequest<CachedCardImage[]>(store.getAll());
+    let total = all.reduce((sum, e) => sum + e.size, 0);
+    const victims: string[] = [];
+    for (const entry of all.sort((a, b) => a.lastUsedAt - b.lastUsedAt)) {
+      if (total <= IMAGE_CACHE_BUDGET_BYTES) break;
+      total -= entry.size;
+      victims.push(entry.key);
+    }
+    await Promise.all(victims.map(key => promisifyRequest(store.delete(key))));
+    return victims;
+  });
+  evicted.forEach(revokeUrl);
+};
+
+const writeEntry = async (key: string, word: string, blob: Blob) => {
+  const now = Date.now();
+  await idbPut(STORES.CARD_IMAGES, { key, word, blob, size: blob.size, createdAt: now, lastUsedAt: now } as CachedCardImage);
+  evictOverBudget().catch(e => console.warn("Image cache eviction failed", e));
+};
+
+const toBlob = async (src: string) => {
+  if (src.startsWith('data:')) return dataUrlToBlob(src);
+  const response = await fetch(src);
+  if (!response.ok) throw new Error(`图片下载失败 [${response.status}]`);
+  return response.blob();
+};
+
+// --- Generation ---
+
+// One generation per key, shared by the card on screen and the prefetcher
+interface PendingImage {
+  promise: Promise<string>;
+  controller: AbortController;
+  waiters: number;
+  listeners: Set<(progress: ImageProgress) => void>;
+}
+
+const pending = new Map<string, PendingImage>();
+
+const startGeneration = (key: string, word: WordEntry): PendingImage => {
+  const controller = new AbortController();
+  const job: PendingImage = { controller, waiters: 0, listeners: new Set(), promise: Promise.resolve('') };
+  job.promise = (async () => {
+    try {
+      const src = await generateCardImage(word.word, word.context, word.visualDescription, {
+        signal: controller.signal,
+        onProgress: p => job.listeners.forEach(listener => listener(p)),
+      });
+      const blob = await toBlob(src);
+      await writeEntry(key, word.word, blob);
+      return urlFor(key, blob, true);
+    } finally {
+      if (pending.get(key) === job) pending.delete(key);
+    }
+  })();
+  pending.set(key, job);
+  return job;
+};
+
+/**
+ * Waits on a shared generation. A caller that aborts stops waiting; the
+ * generation itself is only cancelled once no caller is left.
+ */
+const join = (job: PendingImage, { signal, onProgress }: ImageRequestOptions): Promise<string> =>
+  new Promise((resolve, reject) => {
+    if (signal?.aborted) return reject(abortError());
+    job.waiters++;
+    if (onProgress) job.listeners.add(onProgress);
+
+    let settled = false;
+    const leave = () => {
+      settled = true;
+      job.waiters--;
+      if (onProgress) job.listeners.delete(onProgress);
+      signal?.removeEventListener('abort', onAbort);
+    };
+    const onAbort = () => {
+      if (settled) return;
+      leave();
+      if (job.waiters === 0) job.controller.abort();
+      reject(abortError());
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+    job.promise.then(
+      url => { if (!settled) { leave(); resolve(url); } },
+      e => { if (!settled) { leave(); reject(e); } }
+    );
+  });
+
+/**
+ * Returns a displayable image for the word's card, generating it only when the
+ * cache has nothing usable under the current refresh policy. Generation
+ * failures fall back to the stale image or a placeholder, which is not cached,
+ * except on an explicit `refresh`, where the error is thrown so the learner
+ * can be told.
+ */
+export const getCardImage = async (word: WordEntry, options: CardImageOptions = {}): Promise<string> => {
+  const key = await cardImageKey(word);
+  const [{ imageRefresh }, cached] = await Promise.all([
+    getSettings(),
+    idbGet<CachedCardImage>(STORES.CARD_IMAGES, key).catch(() => undefined),
+  ]);
+
+  if (cached && !options.refresh && !isStale(cached, imageRefresh)) {
+    touch(cached);
+    return urlFor(key, cached.blob);
+  }
+
+  // Images generated before the cache existed are adopted instead of regenerated
+  if (!cached && !options.refresh) {
+    const legacy = await getImageBlob(word.todayImage);
+    if (legacy) {
+      await writeEntry(key, word.word, legacy);
+      return urlFor(key, legacy, true);
+    }
+  }
+
+  const active = pending.get(key);
+  const job = active && !active.controller.signal.aborted ? active : startGeneration(key, word);
+  try {
+    return await join(job, options);
+  } catch (e) {
+    if (isAbortError(e) || options.refresh) throw e;
+    console.error("Image failed:", e);
+    return cached ? urlFor(key, cached.blob) : cardImagePlaceholder(word.word);
+  }
+};
+
+/**
+ * Warms the cache for upcoming cards, one at a time so a long review doesn't
+ * flood the image API. Stops quietly when `signal` aborts.
+ */
+export const prefetchCardImages = async (words: WordEntry[], signal?: AbortSignal) => {
+  for (const word of words) {
+    if (signal?.aborted) return;
+    try {
+      await getCardImage(word, { signal });
+    } catch (e) {
+      if (isAbortError(e)) return;
+      console.warn("Image prefetch failed", e);
+    }
+  }
+};
+
+/**
+ * The word's cached card image, without generating anything.
+ */
+export const getCachedCardImage = async (word: WordEntry): Promise<string | undefined> => {
+  const key = await cardImageKey(word);
+  const cached = await idbGet<CachedCardImage>(STORES.CARD_IMAGES, key).catch(() => undefined);
+  return cached ? urlFor(key, cached.blob) : undefined;
+};
+
+/**
+ * Raw bytes of the word's card image for exports, without generating anything.
+ */
+export const getCardImageBlob = async (word: WordEntry): Promise<Blob | undefined> => {
+  const cached = await idbGet<CachedCardImage>(STORES.CARD_IMAGES, await cardImageKey(word)).catch(() => undefined);
+  return cached?.blob ?? getImageBlob(word.todayImage);
+};
+
+export const getImageCacheUsage = async () => {
+  const all = await withTransaction(STORES.CARD_IMAGES, 'readonly', tx =>
+    promisifyRequest<CachedCardImage[]>(tx.objectStore(STORES.CARD_IMAGES).getAll()));
+  return { count: all.length, bytes: all.reduce((sum, e) => sum + e.size, 0) };
+};
+
+export const clearImageCache = async () => {
+  await withTransaction(STORES.CARD_IMAGES, 'readwrite', tx => promisifyRequest(tx.objectStore(STORES.CARD_IMAGES).clear()));
+  Array.from(objectUrls.keys()).forEach(revokeUrl);
+};
@@ -0,0 +1,175 @@
+
+/**
+ * 图像模型适配层：generateCardImage 等只和 ImageProvider 打交道。
+ * 所有适配器都支持 AbortSignal，并通过 onProgress 汇报进度。
+ */
+export type ImageProviderId = 'seedream' | 'openai';
+
+export type ImageProgressStage = 'submitting' | 'queued' | 'generating' | 'done';
+
+export interface ImageProgress {
+  stage: ImageProgressStage;
+  elapsedMs: number;
+  attempt?: number; // Poll number, for queue-based providers
+}
+
+export interface ImageRequestOptions {
+  signal?: AbortSignal;
+  onProgress?: (progress: ImageProgress) => void;
+}
+
+export interface ImageProvider {
+  id: ImageProviderId;
+  label: string;
+  // Resolves to a data URL (or a remote URL when the backend only returns links)
+  generate(prompt: string, options?: ImageRequestOptions): Promise<string>;
+}
+
+export interface ImageProviderConfig {
+  apiKey: string;
+  model: string;
+  baseUrl: string;
+}
+
+export const IMAGE_PROVIDER_IDS: ImageProviderId[] = ['seedream', 'openai'];
+
+// Polling starts fast and backs off; the whole job gives up after POLL_TIMEOUT_MS
+const POLL_INITIAL_DELAY_MS = 1000;
+const POLL_MAX_DELAY_MS = 10000;
+const POLL_BACKOFF = 1.6;
+const POLL_TIMEOUT_MS = 4 * 60 * 1000;
+const MAX_POLL_ERRORS = 5;
+
+export const isAbortError = (e: unknown) => e instanceof DOMException && e.name === 'AbortError';
+
+export const abortError = () => new DOMException('Image generation cancelled', 'AbortError');
+
+const sleep = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) return reject(abortError());
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(abortError());
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+
+/**
+ * GMI Cloud Seedream 异步生成 (request queue)
+ */
+const createSeedreamProvider = (config: ImageProviderConfig): ImageProvider => ({
+  id: 'seedream',
+  label: 'Seedream (GMI queue)',
+  async generate(prompt, { signal, onProgress } = {}) {
+    if (!config.apiKey) throw new Error("缺少 IMAGE_API_KEY");
+    const startedAt = Date.now();
+    const report = (stage: ImageProgressStage, attempt?: number) =>
+      onProgress?.({ stage, elapsedMs: Date.now() - startedAt, attempt });
+
+    // 1. 提交任务
+    report('submitting');
+    const createUrl = `${config.baseUrl}/api/v1/ie/requestqueue/apikey/requests?key=${config.apiKey}`;
+    const createRes = await fetch(createUrl, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        model: config.model,
+        prompt: prompt,
+        parameters: { aspect_ratio: "1:1" }
+      }),
+      signal,
+    });
+
+    if (!createRes.ok) {
+      const err = await createRes.text();
+      throw new Error(`图片提交失败 [${createRes.status}]: ${err}`);
+    }
+
+    const taskData = await createRes.json();
+    const requestId = taskData.id || taskData.requestId;
+    report('queued');
+
+    // 2. 轮询 (指数退避)
+    const pollUrl = `${config.baseUrl}/api/v1/ie/requestqueue/apikey/requests/${requestId}?key=${config.apiKey}`;
+    let delay = POLL_INITIAL_DELAY_MS;
+    let pollErrors = 0;
+    for (let attempt = 1; Date.now() - startedAt < POLL_TIMEOUT_MS; attempt++) {
+      await sleep(delay, signal);
+      delay = Math.min(delay * POLL_BACKOFF, POLL_MAX_DELAY_MS);
+
+      const statusRes = await fetch(pollUrl, { signal });
+      if (!statusRes.ok) {
+        if (++pollErrors >= MAX_POLL_ERRORS) throw new Error(`查询生成状态失败 [${statusRes.status}]`);
+        continue;
+      }
+
+      const status = await statusRes.json();
+      if (status.status === 'SUCCEEDED' || status.done === true) {
+        const result = status.response || status.result;
+        const base64 = result?.generatedImages?.[0]?.image?.imageBytes || result?.imageBytes;
+        if (base64) {
+          report('done', attempt);
+          return `data:image/png;base64,${base64}`;
+        }
+      }
+      if (status.status === 'FAILED') throw new Error("生成任务失败");
+      report(status.status === 'QUEUED' || status.status === 'PENDING' ? 'queued' : 'generating', attempt);
+    }
+    throw new Error("生成任务超时");
+  },
+});
+
+/**
+ * OpenAI Images 兼容格式 (/v1/images/generations)，同步返回
+ */
+const createOpenAIImageProvider = (config: ImageProviderConfig): ImageProvider => ({
+  id: 'openai',
+  label: 'OpenAI-compatible images',
+  async generate(prompt, { signal, onProgress } = {}) {
+    if (!config.apiKey) throw new Error("缺少 IMAGE_API_KEY");
+    const startedAt = Date.now();
+    onProgress?.({ stage: 'generating', elapsedMs: 0 });
+
+    const url = `${config.baseUrl}/v1/images/generations`;
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${config.apiKey}`
+      },
+      body: JSON.stringify({
+        model: config.model,
+        prompt,
+        n: 1,
+        size: '1024x1024',
+        response_format: 'b64_json',
+      }),
+      signal,
+    });
+
+    if (!response.ok) {
+      const err = await response.text();
+      throw new Error(`图片生成失败 [${response.status}]: ${err.substring(0, 200)}`);
+    }
+
+    const data = await response.json();
+    const image = data.data?.[0];
+    const src = image?.b64_json ? `data:image/png;base64,${image.b64_json}` : image?.url;
+    if (!src) throw new Error("图片接口未返回图像");
+    onProgress?.({ stage: 'done', elapsedMs: Date.now() - startedAt });
+    return src;
+  },
+});
+
+const FACTORIES: Record<ImageProviderId, (config: ImageProviderConfig) => ImageProvider> = {
+  seedream: createSeedreamProvider,
+  openai: createOpenAIImageProvider,
+};
+
+export const isImageProviderId = (id: string): id is ImageProviderId => (IMAGE_PROVIDER_IDS as string[]).includes(id);
+
+export const createImageProvider = (id: ImageProviderId, config: ImageProviderConfig): ImageProvider => FACTORIES[id](config);
@@ -0,0 +1,37 @@
+
+export interface Language {
+  code: string; // ISO 639-1, stored on WordEntry.language
+  name: string; // English name, used inside AI prompts
+  label: string; // Name shown in the UI
+  locale: string; // BCP 47 tag for speech recognition and TTS
+}
+
+export const LANGUAGES: Language[] = [
+  { code: 'en', name: 'English', label: 'English', locale: 'en-US' },
+  { code: 'zh', name: 'Chinese (Simplified)', label: '中文', locale: 'zh-CN' },
+  { code: 'es', name: 'Spanish', label: 'Español', locale: 'es-ES' },
+  { code: 'fr', name: 'French', label: 'Français', locale: 'fr-FR' },
+  { code: 'de', name: 'German', label: 'Deutsch', locale: 'de-DE' },
+  { code: 'it', name: 'Italian', label: 'Italiano', locale: 'it-IT' },
+  { code: 'pt', name: 'Portuguese', label: 'Português', locale: 'pt-BR' },
+  { code: 'ja', name: 'Japanese', label: '日本語', locale: 'ja-JP' },
+  { code: 'ko', name: 'Korean', label: '한국어', locale: 'ko-KR' },
+  { code: 'ru', name: 'Russian', label: 'Русский', locale: 'ru-RU' },
+];
+
+// The app was English -> Chinese only before language pairs existed
+export const DEFAULT_TARGET_LANGUAGE = 'en';
+export const DEFAULT_NATIVE_LANGUAGE = 'zh';
+
+export const getLanguage = (code?: string): Language =>
+  LANGUAGES.find(l => l.code === code) || LANGUAGES.find(l => l.code === DEFAULT_TARGET_LANGUAGE)!;
+
+export interface LanguagePair {
+  target: Language;
+  native: Language;
+}
+
+export const getLanguagePair = (settings: { targetLanguage: string; nativeLanguage: string }): LanguagePair => ({
+  target: getLanguage(settings.targetLanguage),
+  native: getLanguage(settings.nativeLanguage),
+});
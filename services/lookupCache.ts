@@ -0,0 +1,159 @@
+
+import { CachedLookup, DictionaryResult, LookupSource, WordEntry, WordSense } from '../types';
+import { STORES, idbGet, idbPut, promisifyRequest, withTransaction } from './db';
+import { queryDictionary } from './geminiService';
+import { createWordEntry, getWords } from './storageService';
+import { LanguagePair } from './languages';
+import { findWordEntry, mergeForms } from './wordFamilies';
+import { mergeTags } from './decks';
+
+const TTL_MS = 7 * 24 * 60 * 60 * 1000;
+const MAX_ENTRIES = 500;
+
+export interface LookupResult {
+  data: DictionaryResult;
+  source: LookupSource;
+  cachedAt?: number;
+  entry?: WordEntry; // Set when the answer came from the notebook
+}
+
+/**
+ * "  Running " and "running" share a cache entry; so do full-width and half-width forms.
+ */
+export const normalizeLookupKey = (input: string, { target, native }: LanguagePair) =>
+  `${target.code}:${native.code}:${input.normalize('NFKC').trim().replace(/\s+/g, ' ').toLowerCase()}`;
+
+const entryToResult = (w: WordEntry): DictionaryResult => ({
+  identifiedWord: w.word,
+  definition: w.definition,
+  translation: w.translation,
+  example: w.context,
+  visualDescription: w.visualDescription,
+  senses: w.senses,
+  lemma: w.word,
+  wordFamily: w.family,
+  synonyms: w.synonyms,
+  antonyms: w.antonyms,
+  collocations: w.collocations,
+});
+
+/**
+ * The result's senses, or a single sense built from the flat fields for
+ * results cached before senses existed.
+ */
+export const sensesOf = (result: DictionaryResult): WordSense[] =>
+  result.senses?.length
+    ? result.senses
+    : [{ definition: result.definition, translation: result.translation, example: result.example, visualDescription: result.visualDescription }];
+
+export interface EntryOptions {
+  tagTopics?: boolean; // Copy the AI's suggested topics into the entry's tags
+}
+
+/**
+ * Notebook entry for one sense of a lookup, stored under the lemma with the
+ * looked-up form as a variant. The other senses are kept for reference.
+ */
+export const createEntryFromResult = (result: DictionaryResult, language: string, senseIndex = 0, options: EntryOptions = {}): WordEntry => {
+  const senses = sensesOf(result);
+  const sense = senses[senseIndex] || senses[0];
+  const lemma = result.lemma || result.identifiedWord;
+  return createWordEntry({
+    word: lemma,
+    language,
+    variants: mergeForms(lemma, [result.identifiedWord]),
+    family: mergeForms(lemma, result.wordFamily),
+    definition: sense.definition,
+    translation: sense.translation,
+    context: sense.example,
+    visualDescription: sense.visualDescription || result.visualDescription,
+    partOfSpeech: sense.partOfSpeech,
+    ipa: sense.ipa,
+    senses: result.senses,
+    synonyms: result.synonyms,
+    antonyms: result.antonyms,
+    collocations: result.collocations,
+    tags: options.tagTopics ? mergeTags(result.topics) : undefined,
+  });
+};
+
+/**
+ * Fresh dictionary content for an existing entry, ignoring the cache. Keeps
+ * the sense the learner saved (matched by part of speech) and leaves the
+ * word, its forms and its review history alone.
+ */
+export const regenerateWordContent = async (word: WordEntry, languages: LanguagePair): Promise<Partial<WordEntry>> => {
+  const data = await queryDictionary(word.word, languages);
+  writeCache(normalizeLookupKey(word.word, languages), data).catch(e => console.warn("Lookup cache write failed", e));
+  const senses = sensesOf(data);
+  const index = Math.max(0, senses.findIndex(s => !!word.partOfSpeech && s.partOfSpeech === word.partOfSpeech));
+  const fresh = createEntryFromResult(data, word.language, index);
+  return {
+    definition: fresh.definition,
+    translation: fresh.translation,
+    context: fresh.context,
+    visualDescription: fresh.visualDescription,
+    partOfSpeech: fresh.partOfSpeech,
+    ipa: fresh.ipa,
+    senses: fresh.senses,
+    family: mergeForms(word.word, word.family, fresh.family),
+    synonyms: fresh.synonyms,
+    antonyms: fresh.antonyms,
+    collocations: fresh.collocations,
+  };
+};
+
+// Drops least-recently-used entries once the cache grows past MAX_ENTRIES
+const evictOverflow = () =>
+  withTransaction(STORES.LOOKUPS, 'readwrite', async tx => {
+    const store = tx.objectStore(STORES.LOOKUPS);
+    const all = await promisifyRequest<CachedLookup[]>(store.getAll());
+    if (all.length <= MAX_ENTRIES) return;
+    const overflow = all.sort((a, b) => a.lastUsedAt - b.lastUsedAt).slice(0, all.length - MAX_ENTRIES);
+    await Promise.all(overflow.map(e => promisifyRequest(store.delete(e.key))));
+  });
+
+const writeCache = async (key: string, result: DictionaryResult) => {
+  const now = Date.now();
+  await idbPut(STORES.LOOKUPS, { key, result, cachedAt: now, lastUsedAt: now } as CachedLookup);
+  await evictOverflow();
+};
+
+const touch = (entry: CachedLookup) =>
+  idbPut(STORES.LOOKUPS, { ...entry, lastUsedAt: Date.now() }).catch(() => undefined);
+
+const findInNotebook = async (input: string, languages: LanguagePair) =>
+  findWordEntry(await getWords(), languages.target.code, input);
+
+/**
+ * queryDictionary with a local first line of defence. Words already in the
+ * notebook and fresh cache entries are answered without a request. If the API
+ * fails, an expired cache entry is used before giving up.
+ */
+export const lookupWord = async (input: string, languages: LanguagePair): Promise<LookupResult> => {
+  // The notebook comes first: a saved word must never be re-saved from cached AI text over the learner's edits
+  const existing = await findInNotebook(input, languages);
+  if (existing) return { data: entryToResult(existing), source: 'notebook', entry: existing };
+
+  const key = normalizeLookupKey(input, languages);
+  const cached = await idbGet<CachedLookup>(STORES.LOOKUPS, key).catch(() => undefined);
+
+  if (cached && Date.now() - cached.cachedAt < TTL_MS) {
+    touch(cached);
+    return { data: cached.result, source: 'cache', cachedAt: cached.cachedAt };
+  }
+
+  try {
+    if (!navigator.onLine) throw new Error("当前处于离线状态");
+    const data = await queryDictionary(input, languages);
+    writeCache(key, data).catch(e => console.warn("Lookup cache write failed", e));
+    return { data, source: 'network' };
+  } catch (e) {
+    if (cached) {
+      console.warn("Lookup failed, serving expired cache entry", e);
+      touch(cached);
+      return { data: cached.result, source: 'offline-cache', cachedAt: cached.cachedAt };
+    }
+    throw e;
+  }
+};
@@ -0,0 +1,115 @@
+
+import { DailyStats, PetStage, PetState, WordEntry } from '../types';
+import { scheduleFromLevel } from './schedulerService';
+import { DEFAULT_TARGET_LANGUAGE } from './languages';
+
+// A record as stored by some past version; every field has to be checked before use
+export type StoredRecord = Record<string, unknown>;
+
+/**
+ * Persisted records as they come out of storage. Older versions may be missing
+ * fields the current types require, so each migration narrows what it reads.
+ */
+export interface MigrationData {
+  words: StoredRecord[];
+  pet?: StoredRecord;
+  stats: StoredRecord[];
+}
+
+const isRecord = (value: unknown): value is StoredRecord => typeof value === 'object' && value !== null && !Array.isArray(value);
+
+export interface Migration {
+  version: number;
+  description: string;
+  // Must be idempotent: running it on already-migrated data changes nothing
+  migrate: (data: MigrationData) => MigrationData;
+}
+
+export class MigrationError extends Error {
+  constructor(public fromVersion: number, public failedVersion: number, public cause: unknown) {
+    super(`数据迁移失败 (v${fromVersion} -> v${failedVersion})，原始数据已备份`);
+    this.name = 'MigrationError';
+  }
+}
+
+/**
+ * Ordered schema history. Append new entries; never edit or reorder shipped ones.
+ * Data written before versioning existed (including the lingopet_pet_v2 era) is v0.
+ */
+export const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    description: 'Back-fill WordEntry.reviewCount',
+    migrate: (data) => ({
+      ...data,
+      words: data.words.map(w => ({ ...w, reviewCount: w.reviewCount || 0 })),
+    }),
+  },
+  {
+    version: 2,
+    description: 'Ensure PetState.imageUrls and drop stale egg sprites',
+    migrate: (data) => {
+      if (!data.pet) return data;
+      const imageUrls = { ...(isRecord(data.pet.imageUrls) ? data.pet.imageUrls : {}) };
+      if (data.pet.stage === PetStage.EGG) delete imageUrls[PetStage.EGG];
+      const postcardCollection = Array.isArray(data.pet.postcardCollection) ? data.pet.postcardCollection : [];
+      return {
+        ...data,
+        pet: { ...data.pet, imageUrls, postcardCollection },
+      };
+    },
+  },
+  {
+    version: 3,
+    description: 'Derive scheduler ease/stability/lapses from reviewLevel',
+    migrate: (data) => ({
+      ...data,
+      words: data.words.map(w => (w.stability === undefined ? { ...scheduleFromLevel(Number(w.reviewLevel) || 0), ...w } : w)),
+    }),
+  },
+  {
+    version: 4,
+    description: 'Normalize DailyStats records',
+    migrate: (data) => ({
+      ...data,
+      stats: data.stats
+        .filter(s => isRecord(s) && typeof s.date === 'string')
+        .map(s => ({
+          ...s,
+          wordsAdded: Number(s.wordsAdded) || 0,
+          reviewSessionDone: !!s.reviewSessionDone,
+        })),
+    }),
+  },
+  {
+    version: 5,
+    description: 'Tag existing words with their language',
+    migrate: (data) => ({
+      ...data,
+      words: data.words.map(w => (w.language ? w : { ...w, language: DEFAULT_TARGET_LANGUAGE })),
+    }),
+  },
+];
+
+export const CURRENT_SCHEMA_VERSION = MIGRATIONS[MIGRATIONS.length - 1].version;
+
+/**
+ * Applies every migration newer than `fromVersion` in order, on a copy of the data.
+ * Throws MigrationError without touching the input if any step fails.
+ */
+export const applyMigrations = (
+  data: { words: object[]; pet?: object; stats: object[] },
+  fromVersion: number
+): { words: WordEntry[]; pet?: PetState; stats: DailyStats[] } => {
+  let current = data as MigrationData;
+  for (const migration of MIGRATIONS) {
+    if (migration.version <= fromVersion) continue;
+    try {
+      current = migration.migrate(current);
+    } catch (e) {
+      throw new MigrationError(fromVersion, migration.version, e);
+    }
+  }
+  // After the last step the records have every field the current types require
+  return current as unknown as { words: WordEntry[]; pet?: PetState; stats: DailyStats[] };
+};
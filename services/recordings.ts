@@ -0,0 +1,51 @@
+
+import { STORES, idbDelete, idbGet, idbPut } from './db';
+
+/**
+ * The learner's own recordings from speaking drills, one per word (the latest
+ * attempt).
+ */
+export interface WordRecording {
+  wordId: string;
+  blob: Blob;
+  transcript: string;
+  score: number; // 0..1, see gradeSpeech
+  recordedAt: number;
+}
+
+const objectUrls = new Map<string, string>();
+
+const revokeUrl = (wordId: string) => {
+  const url = objectUrls.get(wordId);
+  if (url) URL.revokeObjectURL(url);
+  objectUrls.delete(wordId);
+};
+
+export const saveRecording = async (recording: WordRecording) => {
+  await idbPut(STORES.RECORDINGS, recording);
+  revokeUrl(recording.wordId);
+};
+
+export const getRecording = (wordId: string) =>
+  idbGet<WordRecording>(STORES.RECORDINGS, wordId).catch(() => undefined);
+
+// Object URL for the word's recording, or undefined if there is none
+export const getRecordingUrl = async (wordId: string): Promise<string | undefined> => {
+  const existing = objectUrls.get(wordId);
+  if (existing) return existing;
+  const recording = await getRecording(wordId);
+  if (!recording) return undefined;
+  const url = URL.createObjectURL(recording.blob);
+  objectUrls.set(wordId, url);
+  return url;
+};
+
+// After the whole store is swapped out (backup restore), no cached URL can be trusted
+export const forgetRecordingUrls = () => {
+  Array.from(objectUrls.keys()).forEach(revokeUrl);
+};
+
+export const deleteRecording = async (wordId: string) => {
+  await idbDelete(STORES.RECORDINGS, wordId);
+  revokeUrl(wordId);
+};
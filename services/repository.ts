@@ -0,0 +1,142 @@
+
+import { CachedCardImage, CachedLookup, DailyStats, PetState, ReviewDigest, ReviewEvent, WordEntry } from '../types';
+import { WordRecording } from './recordings';
+import { STORES, StoreName, idbDelete, idbGet, idbGetAll, idbPut, promisifyRequest, withTransaction } from './db';
+
+const PET_KEY = 'current';
+
+/**
+ * Everything storageService persists, written in one atomic batch.
+ */
+export interface RepositorySnapshot {
+  words: WordEntry[];
+  pet?: PetState;
+  stats: DailyStats[];
+  images: Record<string, Blob>;
+  meta: Record<string, unknown>;
+  reviewEvents?: ReviewEvent[];
+  reviewDigests?: ReviewDigest[];
+  lookups?: CachedLookup[];
+  cardImages?: CachedCardImage[];
+  recordings?: WordRecording[];
+}
+
+/**
+ * Async persistence layer used by storageService. Image data lives in its own
+ * store so word and pet records stay small.
+ */
+export interface StorageRepository {
+  getAllWords(): Promise<WordEntry[]>;
+  getWord(id: string): Promise<WordEntry | undefined>;
+  putWord(word: WordEntry): Promise<void>;
+  deleteWord(id: string): Promise<void>;
+  // Writes `merged`, deletes `removedId` and moves its review events onto `merged`, in one transaction
+  mergeWords(merged: WordEntry, removedId: string): Promise<void>;
+  getPet(): Promise<PetState | undefined>;
+  putPet(pet: PetState): Promise<void>;
+  getStats(date: string): Promise<DailyStats | undefined>;
+  getAllStats(): Promise<DailyStats[]>;
+  putStats(stats: DailyStats): Promise<void>;
+  getMeta<T>(key: string): Promise<T | undefined>;
+  putMeta(key: string, value: unknown): Promise<void>;
+  getImage(key: string): Promise<Blob | undefined>;
+  putImage(key: string, blob: Blob): Promise<void>;
+  deleteImage(key: string): Promise<void>;
+  getImageKeys(): Promise<string[]>;
+  getAllReviewEvents(): Promise<ReviewEvent[]>;
+  getAllReviewDigests(): Promise<ReviewDigest[]>;
+  getAllLookups(): Promise<CachedLookup[]>;
+  getAllCardImages(): Promise<CachedCardImage[]>;
+  getAllRecordings(): Promise<WordRecording[]>;
+  deleteMeta(key: string): Promise<void>;
+  // Deletes the session record stored at meta `key` if it is `sessionId`, adding `xp` to the pet in the same transaction; false if it was already closed
+  closeSession(key: string, sessionId: string, xp: number): Promise<boolean>;
+  // `replace` clears words, pet and stats first, plus the review log, caches and recordings when the snapshot carries them; images and meta are only ever added to
+  writeSnapshot(snapshot: RepositorySnapshot, options?: { replace?: boolean }): Promise<void>;
+}
+
+const ALL_STORES: StoreName[] = [STORES.WORDS, STORES.PET, STORES.STATS, STORES.IMAGES, STORES.META, STORES.REVIEW_EVENTS, STORES.REVIEW_DIGESTS,
+  STORES.LOOKUPS, STORES.CARD_IMAGES, STORES.RECORDINGS];
+
+export const indexedDBRepository: StorageRepository = {
+  getAllWords: () => idbGetAll<WordEntry>(STORES.WORDS),
+  getWord: (id) => idbGet<WordEntry>(STORES.WORDS, id),
+  putWord: (word) => idbPut(STORES.WORDS, word),
+  deleteWord: (id) => idbDelete(STORES.WORDS, id),
+
+  mergeWords: (merged, removedId) =>
+    withTransaction([STORES.WORDS, STORES.REVIEW_EVENTS], 'readwrite', async tx => {
+      const words = tx.objectStore(STORES.WORDS);
+      const events = tx.objectStore(STORES.REVIEW_EVENTS);
+      const moved = await promisifyRequest<{ wordId: string }[]>(events.index('wordId').getAll(removedId));
+      await Promise.all([
+        promisifyRequest(words.put(merged)),
+        promisifyRequest(words.delete(removedId)),
+        ...moved.map(e => promisifyRequest(events.put({ ...e, wordId: merged.id }))),
+      ]);
+    }),
+
+  getPet: () => idbGet<PetState>(STORES.PET, PET_KEY),
+  putPet: (pet) => idbPut(STORES.PET, pet, PET_KEY),
+
+  getStats: (date) => idbGet<DailyStats>(STORES.STATS, date),
+  getAllStats: () => idbGetAll<DailyStats>(STORES.STATS),
+  putStats: (stats) => idbPut(STORES.STATS, stats),
+
+  getMeta: <T>(key: string) => idbGet<T>(STORES.META, key),
+  putMeta: (key, value) => idbPut(STORES.META, value, key),
+  deleteMeta: (key) => idbDelete(STORES.META, key),
+
+  closeSession: (key, sessionId, xp) =>
+    withTransaction([STORES.META, STORES.PET], 'readwrite', async tx => {
+      const meta = tx.objectStore(STORES.META);
+      const session = await promisifyRequest<{ id?: string } | undefined>(meta.get(key));
+      if (!session || session.id !== sessionId) return false;
+      const pets = tx.objectStore(STORES.PET);
+      const pet = await promisifyRequest<PetState | undefined>(pets.get(PET_KEY));
+      if (pet && xp) await promisifyRequest(pets.put({ ...pet, xp: pet.xp + xp }, PET_KEY));
+      await promisifyRequest(meta.delete(key));
+      return true;
+    }),
+
+  getImage: (key) => idbGet<Blob>(STORES.IMAGES, key),
+  putImage: (key, blob) => idbPut(STORES.IMAGES, blob, key),
+  deleteImage: (key) => idbDelete(STORES.IMAGES, key),
+  getImageKeys: () =>
+    withTransaction(STORES.IMAGES, 'readonly', tx => promisifyRequest(tx.objectStore(STORES.IMAGES).getAllKeys()))
+      .then(keys => keys.map(String)),
+
+  getAllReviewEvents: () => idbGetAll<ReviewEvent>(STORES.REVIEW_EVENTS),
+  getAllReviewDigests: () => idbGetAll<ReviewDigest>(STORES.REVIEW_DIGESTS),
+  getAllLookups: () => idbGetAll<CachedLookup>(STORES.LOOKUPS),
+  getAllCardImages: () => idbGetAll<CachedCardImage>(STORES.CARD_IMAGES),
+  getAllRecordings: () => idbGetAll<WordRecording>(STORES.RECORDINGS),
+
+  writeSnapshot: (snapshot, options = {}) =>
+    withTransaction(ALL_STORES, 'readwrite', async tx => {
+      if (options.replace) {
+        // Schema migrations replace the records without touching the log, so it is only cleared when a new one comes with them
+        const cleared: StoreName[] = [STORES.WORDS, STORES.PET, STORES.STATS];
+        if (snapshot.reviewEvents) cleared.push(STORES.REVIEW_EVENTS);
+        if (snapshot.reviewDigests) cleared.push(STORES.REVIEW_DIGESTS);
+        if (snapshot.lookups) cleared.push(STORES.LOOKUPS);
+        if (snapshot.cardImages) cleared.push(STORES.CARD_IMAGES);
+        if (snapshot.recordings) cleared.push(STORES.RECORDINGS);
+        await Promise.all(cleared.map(store => promisifyRequest(tx.objectStore(store).clear())));
+      }
+      const pending: Promise<unknown>[] = [];
+      snapshot.words.forEach(w => pending.push(promisifyRequest(tx.objectStore(STORES.WORDS).put(w))));
+      if (snapshot.pet) pending.push(promisifyRequest(tx.objectStore(STORES.PET).put(snapshot.pet, PET_KEY)));
+      snapshot.stats.forEach(s => pending.push(promisifyRequest(tx.objectStore(STORES.STATS).put(s))));
+      Object.entries(snapshot.images).forEach(([key, blob]) =>
+        pending.push(promisifyRequest(tx.objectStore(STORES.IMAGES).put(blob, key))));
+      Object.entries(snapshot.meta).forEach(([key, value]) =>
+        pending.push(promisifyRequest(tx.objectStore(STORES.META).put(value, key))));
+      snapshot.reviewEvents?.forEach(e => pending.push(promisifyRequest(tx.objectStore(STORES.REVIEW_EVENTS).put(e))));
+      snapshot.reviewDigests?.forEach(d => pending.push(promisifyRequest(tx.objectStore(STORES.REVIEW_DIGESTS).put(d))));
+      snapshot.lookups?.forEach(l => pending.push(promisifyRequest(tx.objectStore(STORES.LOOKUPS).put(l))));
+      snapshot.cardImages?.forEach(c => pending.push(promisifyRequest(tx.objectStore(STORES.CARD_IMAGES).put(c))));
+      snapshot.recordings?.forEach(r => pending.push(promisifyRequest(tx.objectStore(STORES.RECORDINGS).put(r))));
+      await Promise.all(pending);
+    }),
+};
@@ -0,0 +1,178 @@
+
+import { ReviewDigest, ReviewEvent, ReviewGrade, ReviewSnapshot, WordEntry } from '../types';
+import { STORES, idbGetAll, promisifyRequest, withTransaction } from './db';
+import { ScheduleFields } from './schedulerService';
+import { ensureReady } from './storageService';
+
+/**
+ * Append-only log of every review answer. Each event carries the word's
+ * schedule from before the answer, so the latest one can be undone, and the
+ * log (plus digests of compacted days) is what statistics are computed from.
+ */
+
+// Raw events are kept this long, then folded into per-day digests
+export const RAW_EVENT_DAYS = 180;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Upper bounds (days) of the intervalBefore buckets used for retention stats
+export const INTERVAL_BUCKETS: { key: string; maxDays: number }[] = [
+  { key: 'new', maxDays: 0 },
+  { key: '<1d', maxDays: 1 },
+  { key: '1-3d', maxDays: 3 },
+  { key: '3-7d', maxDays: 7 },
+  { key: '1-2w', maxDays: 14 },
+  { key: '2-4w', maxDays: 30 },
+  { key: '1-3mo', maxDays: 90 },
+  { key: '3mo+', maxDays: Infinity },
+];
+
+export const intervalBucket = (intervalMs: number) =>
+  INTERVAL_BUCKETS.find(b => intervalMs / DAY_MS <= b.maxDays)!.key;
+
+export const isPassed = (grade?: ReviewGrade) => grade !== undefined && grade > ReviewGrade.AGAIN;
+
+export const dayKey = (timestamp: number) => new Date(timestamp).toISOString().split('T')[0];
+
+const snapshotOf = (w: WordEntry): ReviewSnapshot => ({
+  reviewLevel: w.reviewLevel,
+  reviewCount: w.reviewCount,
+  nextReviewDate: w.nextReviewDate,
+  lastReviewedAt: w.lastReviewedAt,
+  ease: w.ease,
+  stability: w.stability,
+  lapses: w.lapses,
+});
+
+const scheduledInterval = (w: Pick<WordEntry, 'nextReviewDate' | 'lastReviewedAt'>) =>
+  w.lastReviewedAt ? Math.max(0, w.nextReviewDate - w.lastReviewedAt) : 0;
+
+export interface ReviewInput {
+  mode: ReviewEvent['mode'];
+  grade?: ReviewGrade;
+  responseMs?: number;
+  schedule?: ScheduleFields; // New schedule from calculateNextReview; passive listens leave it unchanged
+}
+
+/**
+ * Applies an answer to the word and appends its event, in one transaction.
+ */
+export const recordReview = async (wordId: string, input: ReviewInput, now: number = Date.now()): Promise<ReviewEvent | undefined> => {
+  await ensureReady();
+  return withTransaction([STORES.WORDS, STORES.REVIEW_EVENTS], 'readwrite', async tx => {
+    const words = tx.objectStore(STORES.WORDS);
+    const word = await promisifyRequest<WordEntry | undefined>(words.get(wordId));
+    if (!word) return undefined;
+
+    const updated: WordEntry = { ...word, ...input.schedule, reviewCount: (word.reviewCount || 0) + 1 };
+    const event: ReviewEvent = {
+      id: crypto.randomUUID(),
+      wordId,
+      timestamp: now,
+      mode: input.mode,
+      grade: input.grade,
+      responseMs: input.responseMs,
+      intervalBefore: scheduledInterval(word),
+      intervalAfter: input.schedule ? Math.max(0, input.schedule.nextReviewDate - now) : scheduledInterval(word),
+      previous: snapshotOf(word),
+    };
+    await Promise.all([
+      promisifyRequest(words.put(updated)),
+      promisifyRequest(tx.objectStore(STORES.REVIEW_EVENTS).add(event)),
+    ]);
+    return event;
+  });
+};
+
+/**
+ * Reverts an answer: restores the word's schedule from the event and removes
+ * it. Only the word's most recent event can be undone, since later events
+ * were computed from its result. Resolves to false if that isn't the case.
+ */
+export const undoReview = async (eventId: string): Promise<boolean> => {
+  await ensureReady();
+  return withTransaction([STORES.WORDS, STORES.REVIEW_EVENTS], 'readwrite', async tx => {
+    const events = tx.objectStore(STORES.REVIEW_EVENTS);
+    const event = await promisifyRequest<ReviewEvent | undefined>(events.get(eventId));
+    if (!event) return false;
+    const forWord = await promisifyRequest<ReviewEvent[]>(events.index('wordId').getAll(event.wordId));
+    if (forWord.some(e => e.timestamp > event.timestamp)) return false;
+
+    const words = tx.objectStore(STORES.WORDS);
+    const word = await promisifyRequest<WordEntry | undefined>(words.get(event.wordId));
+    if (word) await promisifyRequest(words.put({ ...word, ...event.previous }));
+    await promisifyRequest(events.delete(eventId));
+    return true;
+  });
+};
+
+export const getReviewEvents = async (since = 0): Promise<ReviewEvent[]> => {
+  await ensureReady();
+  return withTransaction(STORES.REVIEW_EVENTS, 'readonly', tx =>
+    promisifyRequest<ReviewEvent[]>(tx.objectStore(STORES.REVIEW_EVENTS).index('timestamp').getAll(IDBKeyRange.lowerBound(since))));
+};
+
+export const getReviewDigests = async (): Promise<ReviewDigest[]> => {
+  await ensureReady();
+  return idbGetAll<ReviewDigest>(STORES.REVIEW_DIGESTS);
+};
+
+const emptyDigest = (date: string): ReviewDigest => ({ date, reviews: 0, passed: 0, byMode: {}, byInterval: {} });
+
+// Adds one event to a day's digest; passive listens count as reviews but not towards retention
+const addToDigest = (digest: ReviewDigest, event: ReviewEvent) => {
+  digest.reviews++;
+  digest.byMode[event.mode] = (digest.byMode[event.mode] || 0) + 1;
+  if (event.grade === undefined) return;
+  const passed = isPassed(event.grade);
+  if (passed) digest.passed++;
+  const bucket = intervalBucket(event.intervalBefore);
+  const slot = digest.byInterval[bucket] || { reviews: 0, passed: 0 };
+  digest.byInterval[bucket] = { reviews: slot.reviews + 1, passed: slot.passed + (passed ? 1 : 0) };
+};
+
+/**
+ * Per-day digests for a set of raw events, in the same shape as compacted days,
+ * so callers can treat the whole history uniformly.
+ */
+export const digestEvents = (events: ReviewEvent[]): ReviewDigest[] => {
+  const byDate = new Map<string, ReviewDigest>();
+  events.forEach(event => {
+    const date = dayKey(event.timestamp);
+    const digest = byDate.get(date) || emptyDigest(date);
+    addToDigest(digest, event);
+    byDate.set(date, digest);
+  });
+  return Array.from(byDate.values());
+};
+
+/**
+ * Folds events older than RAW_EVENT_DAYS into per-day digests and deletes
+ * them. Returns how many events were compacted.
+ */
+export const compactReviewLog = async (now: number = Date.now()): Promise<number> => {
+  await ensureReady();
+  const cutoff = now - RAW_EVENT_DAYS * DAY_MS;
+  return withTransaction([STORES.REVIEW_EVENTS, STORES.REVIEW_DIGESTS], 'readwrite', async tx => {
+    const events = tx.objectStore(STORES.REVIEW_EVENTS);
+    const digests = tx.objectStore(STORES.REVIEW_DIGESTS);
+    const old = await promisifyRequest<ReviewEvent[]>(events.index('timestamp').getAll(IDBKeyRange.upperBound(cutoff, true)));
+    if (!old.length) return 0;
+
+    const touched = new Map<string, ReviewDigest>();
+    for (const event of old) {
+      const date = dayKey(event.timestamp);
+      let digest = touched.get(date);
+      if (!digest) {
+        digest = (await promisifyRequest<ReviewDigest | undefined>(digests.get(date))) || emptyDigest(date);
+        touched.set(date, digest);
+      }
+      addToDigest(digest, event);
+    }
+    await Promise.all([
+      ...Array.from(touched.values()).map(d => promisifyRequest(digests.put(d))),
+      ...old.map(e => promisifyRequest(events.delete(e.id))),
+    ]);
+    return old.length;
+  });
+};
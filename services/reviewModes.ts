@@ -0,0 +1,240 @@
+
+import { ReviewGrade, ReviewMode, WordEntry } from '../types';
+import { WordMatch, alignWords, editDistance, normalizeAnswer, typoTolerance } from './textMatch';
+import { RecognitionResult, isSpeechRecognitionSupported } from './speechInput';
+import { wordForms } from './wordFamilies';
+
+/**
+ * Builds and grades the auto-graded Brain Gym cards. Cloze blanks the word out
+ * of its example sentence; multiple choice asks for the right definition or
+ * translation against distractors from the learner's own notebook; dictation
+ * speaks the word and asks for its spelling; speaking has the learner say the
+ * word or its sentence and scores the recognition transcript.
+ */
+export const CLOZE_BLANK = '_____';
+
+const CHOICE_COUNT = 4;
+const MIN_DISTRACTORS = 2;
+
+// Answers faster than this earn EASY instead of GOOD
+const FAST_ANSWER_MS = { cloze: 8000, choice: 4000, dictation: 6000 };
+
+// Longest context sentence used for a speaking drill, in words
+const MAX_SPOKEN_WORDS = 16;
+
+// Recognition confidence below this costs a speaking answer one grade
+const LOW_CONFIDENCE = 0.6;
+
+// Scripts written without spaces, where word boundaries can't be checked
+const UNSPACED_LANGUAGES = ['zh', 'ja'];
+
+export interface ClozePrompt {
+  sentence: string; // Context with the word replaced by CLOZE_BLANK
+  answer: string; // The form that was blanked out, as written in the context
+}
+
+export interface ChoicePrompt {
+  field: 'definition' | 'translation';
+  options: string[];
+  answerIndex: number;
+}
+
+export interface DictationPrompt {
+  answer: string; // What gets spoken and must be typed back
+  sentence?: string; // Context sentence the learner can ask to hear
+}
+
+export interface SpeakingPrompt {
+  kind: 'word' | 'sentence';
+  text: string;
+}
+
+export type ReviewCard =
+  | { mode: 'active' }
+  | { mode: 'cloze'; cloze: ClozePrompt }
+  | { mode: 'choice'; choice: ChoicePrompt }
+  | { mode: 'dictation'; dictation: DictationPrompt }
+  | { mode: 'speaking'; speaking: SpeakingPrompt };
+
+export interface AnswerResult {
+  correct: boolean; // HARD answers (typos, wrong inflection) still count as correct
+  grade: ReviewGrade;
+  expected: string;
+  heard?: string; // Speaking: the transcript that was graded
+  score?: number; // Speaking: share of target words recognized, 0..1
+  words?: WordMatch[]; // Speaking: per-word feedback
+}
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Words of a sentence, or characters for scripts without spaces
+const speechTokens = (text: string, language: string) =>
+  UNSPACED_LANGUAGES.includes(language)
+    ? Array.from(text).filter(ch => /[\p{L}\p{N}]/u.test(ch))
+    : text.split(/[^\p{L}\p{M}\p{N}'’-]+/u).filter(Boolean);
+
+const shuffle = <T>(items: T[]): T[] => {
+  const out = [...items];
+  for (let i = out.length - 1; i > 0; i--) {
+    const j = Math.floor(Math.random() * (i + 1));
+    [out[i], out[j]] = [out[j], out[i]];
+  }
+  return out;
+};
+
+export const buildCloze = (word: WordEntry): ClozePrompt | null => {
+  if (!word.context) return null;
+  // Longest form first so "running" is blanked whole rather than as "run" + "ning"
+  const forms = Array.from(new Set([word.word, ...(word.variants || [])])).sort((a, b) => b.length - a.length);
+  const unspaced = UNSPACED_LANGUAGES.includes(word.language);
+  for (const form of forms) {
+    const pattern = unspaced
+      ? new RegExp(escapeRegExp(form), 'iu')
+      : new RegExp(`(?<![\\p{L}\\p{M}])${escapeRegExp(form)}(?![\\p{L}\\p{M}])`, 'iu');
+    const match = word.context.match(pattern);
+    if (match && match.index !== undefined) {
+      return {
+        sentence: word.context.slice(0, match.index) + CLOZE_BLANK + word.context.slice(match.index + match[0].length),
+        answer: match[0],
+      };
+    }
+  }
+  return null;
+};
+
+export const buildChoice = (word: WordEntry, pool: WordEntry[]): ChoicePrompt | null => {
+  const field = word.translation && Math.random() < 0.5 ? 'translation' : 'definition';
+  const correct = word[field];
+  if (!correct) return null;
+
+  const seen = new Set([normalizeAnswer(correct)]);
+  const distractors: string[] = [];
+  shuffle(pool.filter(w => w.id !== word.id && w.language === word.language)).forEach(w => {
+    const text = w[field];
+    if (!text || distractors.length >= CHOICE_COUNT - 1 || seen.has(normalizeAnswer(text))) return;
+    seen.add(normalizeAnswer(text));
+    distractors.push(text);
+  });
+  if (distractors.length < MIN_DISTRACTORS) return null;
+
+  const options = shuffle([correct, ...distractors]);
+  return { field, options, answerIndex: options.indexOf(correct) };
+};
+
+export const buildDictation = (word: WordEntry): DictationPrompt | null => {
+  // Dictating a single character or a phrase doesn't test spelling
+  if (Array.from(word.word.trim()).length < 2 || /\s/.test(word.word.trim())) return null;
+  return { answer: word.word.trim(), sentence: word.context || undefined };
+};
+
+export const buildSpeaking = (word: WordEntry): SpeakingPrompt | null => {
+  if (!isSpeechRecognitionSupported()) return null;
+  // Once the word itself is familiar, practise it in its sentence
+  const sentenceLength = word.context ? speechTokens(word.context, word.language).length : 0;
+  if (word.reviewLevel >= 2 && sentenceLength > 1 && sentenceLength <= MAX_SPOKEN_WORDS) {
+    return { kind: 'sentence', text: word.context };
+  }
+  return { kind: 'word', text: word.word };
+};
+
+/**
+ * Decides how a card is asked. Fixed modes fall back to whatever the word
+ * supports; 'mixed' starts with recognition for young words and moves to
+ * recall as they mature.
+ */
+export const planReviewCard = (word: WordEntry, mode: Exclude<ReviewMode, 'passive'>, pool: WordEntry[]): ReviewCard => {
+  if (mode === 'active') return { mode: 'active' };
+
+  const cloze = (): ReviewCard | null => {
+    const prompt = buildCloze(word);
+    return prompt && { mode: 'cloze', cloze: prompt };
+  };
+  const choice = (): ReviewCard | null => {
+    const prompt = buildChoice(word, pool);
+    return prompt && { mode: 'choice', choice: prompt };
+  };
+  const dictation = (): ReviewCard | null => {
+    const prompt = buildDictation(word);
+    return prompt && { mode: 'dictation', dictation: prompt };
+  };
+  const speaking = (): ReviewCard | null => {
+    const prompt = buildSpeaking(word);
+    return prompt && { mode: 'speaking', speaking: prompt };
+  };
+  const active = (): ReviewCard => ({ mode: 'active' });
+
+  let order: (() => ReviewCard | null)[];
+  if (mode === 'cloze') order = [cloze, choice];
+  else if (mode === 'choice') order = [choice, cloze];
+  else if (mode === 'dictation') order = [dictation, cloze];
+  else if (mode === 'speaking') order = [speaking, dictation];
+  else if (word.reviewLevel <= 1) order = [choice, cloze];
+  else if (word.reviewLevel <= 3) order = [cloze, choice];
+  else order = Math.random() < 0.5 ? [dictation, active] : [active]; // Mature words: produce it, by ear or from memory
+
+  for (const build of order) {
+    const card = build();
+    if (card) return card;
+  }
+  return active();
+};
+
+// Exact answers grade on speed; accent slips, small typos and other forms of the word are HARD
+const gradeTyped = (input: string, answer: string, word: WordEntry, responseMs: number, fastMs: number): AnswerResult => {
+  const given = normalizeAnswer(input);
+  const expected = normalizeAnswer(answer);
+  if (given === expected) {
+    return { correct: true, grade: responseMs < fastMs ? ReviewGrade.EASY : ReviewGrade.GOOD, expected: answer };
+  }
+  const nearlyRight =
+    normalizeAnswer(input, true) === normalizeAnswer(answer, true) ||
+    editDistance(given, expected) <= typoTolerance(expected) ||
+    wordForms(word).includes(given); // Right word, wrong inflection
+  return nearlyRight
+    ? { correct: true, grade: ReviewGrade.HARD, expected: answer }
+    : { correct: false, grade: ReviewGrade.AGAIN, expected: answer };
+};
+
+export const gradeCloze = (input: string, prompt: ClozePrompt, word: WordEntry, responseMs: number): AnswerResult =>
+  gradeTyped(input, prompt.answer, word, responseMs, FAST_ANSWER_MS.cloze);
+
+export const gradeDictation = (input: string, prompt: DictationPrompt, word: WordEntry, responseMs: number): AnswerResult =>
+  gradeTyped(input, prompt.answer, word, responseMs, FAST_ANSWER_MS.dictation);
+
+export const gradeChoice = (picked: number, prompt: ChoicePrompt, responseMs: number): AnswerResult => {
+  const expected = prompt.options[prompt.answerIndex];
+  if (picked !== prompt.answerIndex) return { correct: false, grade: ReviewGrade.AGAIN, expected };
+  return { correct: true, grade: responseMs < FAST_ANSWER_MS.choice ? ReviewGrade.EASY : ReviewGrade.GOOD, expected };
+};
+
+/**
+ * Scores a recognition result against the target. Every alternative the
+ * recognizer offered is tried and the best match kept, so an accent that
+ * lands on the second guess isn't punished. Low confidence costs one grade.
+ */
+export const gradeSpeech = (recognition: RecognitionResult, prompt: SpeakingPrompt, word: WordEntry): AnswerResult => {
+  const target = speechTokens(prompt.text, word.language);
+  const candidates = recognition.alternatives.length ? recognition.alternatives : [recognition];
+  const best = candidates
+    .map(alt => {
+      const words = alignWords(speechTokens(alt.transcript, word.language), target);
+      const points = words.reduce((sum, w) => sum + (w.status === 'ok' ? 1 : w.status === 'close' ? 0.5 : 0), 0);
+      return { alt, words, score: target.length ? points / target.length : 0 };
+    })
+    .sort((a, b) => b.score - a.score)[0];
+
+  // Browsers that don't report confidence give 0; don't hold that against the learner
+  const confidence = best.alt.confidence || recognition.confidence || 1;
+  let grade = best.score >= 0.9 ? ReviewGrade.GOOD : best.score >= 0.6 ? ReviewGrade.HARD : ReviewGrade.AGAIN;
+  if (grade === ReviewGrade.GOOD && best.score === 1 && confidence >= 0.85) grade = ReviewGrade.EASY;
+  if (confidence < LOW_CONFIDENCE && grade > ReviewGrade.AGAIN) grade -= 1;
+
+  return {
+    correct: grade > ReviewGrade.AGAIN,
+    grade,
+    expected: prompt.text,
+    heard: best.alt.transcript,
+    score: best.score,
+    words: best.words,
+  };
+};
@@ -0,0 +1,77 @@
+
+import { ReviewEvent, WordEntry } from '../types';
+
+/**
+ * Builds the Brain Gym queue: due words most-overdue first, capped by the
+ * daily review limit, with never-graded words (up to the daily new limit)
+ * spread evenly between them.
+ */
+
+// Times a failed card comes back within one session before it waits for another day
+export const MAX_RELEARN_STEPS = 3;
+
+// Cards shown before a failed card comes back
+export const RELEARN_GAP = 3;
+
+export interface QueueLimits {
+  newPerDay: number;
+  reviewsPerDay: number;
+}
+
+// Never graded; passive listens don't count
+export const isNewWord = (w: WordEntry) => !w.lastReviewedAt && !(w.stability > 0);
+
+/**
+ * How late a review is relative to its interval: a word 2 days late on a
+ * 1-day interval is more urgent than one 2 days late on a 60-day interval.
+ */
+const overdueness = (w: WordEntry, now: number) => {
+  const late = now - w.nextReviewDate;
+  const interval = w.lastReviewedAt ? Math.max(w.nextReviewDate - w.lastReviewedAt, 1) : 1;
+  return late / interval;
+};
+
+/**
+ * Puts one new word after every few reviews so new material doesn't all land
+ * at the start or the end of a session.
+ */
+const interleave = (reviews: WordEntry[], fresh: WordEntry[]) => {
+  if (!fresh.length) return reviews;
+  if (!reviews.length) return fresh;
+  const every = reviews.length / (fresh.length + 1);
+  const out: WordEntry[] = [];
+  let nextNew = 0;
+  reviews.forEach((w, i) => {
+    out.push(w);
+    while (nextNew < fresh.length && i + 1 >= Math.round(every * (nextNew + 1))) out.push(fresh[nextNew++]);
+  });
+  return out.concat(fresh.slice(nextNew));
+};
+
+/**
+ * `todaysEvents` are today's review log entries, so limits hold across
+ * several sessions in one day.
+ */
+export const buildReviewQueue = (words: WordEntry[], todaysEvents: ReviewEvent[], limits: QueueLimits, now: number = Date.now()): WordEntry[] => {
+  const graded = todaysEvents.filter(e => e.grade !== undefined);
+  const introducedToday = new Set(graded.filter(e => !e.previous.lastReviewedAt && !(e.previous.stability > 0)).map(e => e.wordId)).size;
+  const reviewedToday = graded.filter(e => e.previous.lastReviewedAt || e.previous.stability > 0).length;
+
+  const reviews = words
+    .filter(w => !isNewWord(w) && w.nextReviewDate <= now)
+    .sort((a, b) => overdueness(b, now) - overdueness(a, now))
+    .slice(0, Math.max(0, limits.reviewsPerDay - reviewedToday));
+
+  const fresh = words
+    .filter(isNewWord)
+    .sort((a, b) => a.addedAt - b.addedAt)
+    .slice(0, Math.max(0, limits.newPerDay - introducedToday));
+
+  return interleave(reviews, fresh);
+};
+
+// When the next review falls due, for the "nothing due" message; null if nothing is scheduled
+export const nextDueDate = (words: WordEntry[]) => {
+  const upcoming = words.filter(w => !isNewWord(w)).map(w => w.nextReviewDate);
+  return upcoming.length ? Math.min(...upcoming) : null;
+};
@@ -0,0 +1,158 @@
+
+import { ReviewGrade, WordEntry } from '../types';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// FSRS forgetting curve: R(t) = (1 + FACTOR * t / S) ^ DECAY, so R(S) = 0.9
+const DECAY = -0.5;
+const FACTOR = 19 / 81;
+
+export const DEFAULT_EASE = 2.5;
+const MIN_EASE = 1.3;
+const MAX_EASE = 3.0;
+
+export const DEFAULT_TARGET_RETENTION = 0.9;
+const MIN_RETENTION = 0.7;
+const MAX_RETENTION = 0.97;
+
+// Stability (days) needed to reach each mastery level. Mirrors the old fixed interval table.
+const LEVEL_THRESHOLDS = [1, 3, 7, 14, 30];
+
+const INITIAL_STABILITY: Record<ReviewGrade, number> = {
+  [ReviewGrade.AGAIN]: 0,
+  [ReviewGrade.HARD]: 0.6,
+  [ReviewGrade.GOOD]: 1,
+  [ReviewGrade.EASY]: 4,
+};
+
+const HARD_MULTIPLIER = 1.2;
+const EASY_BONUS = 1.3;
+const LAPSE_MULTIPLIER = 0.3;
+const RELEARN_DELAY_MS = 10 * 60 * 1000;
+const MAX_INTERVAL_DAYS = 365;
+
+// Intervals from this many days on are spread by ±FUZZ_FACTOR (at least a day) so words learned together don't stay in lockstep
+const FUZZ_MIN_DAYS = 3;
+const FUZZ_FACTOR = 0.05;
+
+export type ScheduleFields = Pick<WordEntry, 'reviewLevel' | 'nextReviewDate' | 'lastReviewedAt' | 'ease' | 'stability' | 'lapses'>;
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+export const clampRetention = (retention: number) => clamp(retention, MIN_RETENTION, MAX_RETENTION);
+
+// Deterministic 0..1 value per word and review, so the button preview matches what gets scheduled
+const fuzzSeed = (word: WordEntry) => {
+  const key = `${word.id}:${word.reviewCount || 0}`;
+  let hash = 2166136261;
+  for (let i = 0; i < key.length; i++) {
+    hash ^= key.charCodeAt(i);
+    hash = Math.imul(hash, 16777619);
+  }
+  return (hash >>> 0) / 0xffffffff;
+};
+
+const fuzzInterval = (days: number, word: WordEntry) => {
+  if (days < FUZZ_MIN_DAYS) return days;
+  const spread = Math.max(1, Math.round(days * FUZZ_FACTOR));
+  return days + Math.round((fuzzSeed(word) * 2 - 1) * spread);
+};
+
+export const levelFromStability = (stability: number): number =>
+  LEVEL_THRESHOLDS.filter(t => stability >= t).length;
+
+/**
+ * Days until recall probability decays to `retention` for a memory of the given stability.
+ */
+export const intervalForRetention = (stability: number, retention: number): number =>
+  (stability / FACTOR) * (Math.pow(clampRetention(retention), 1 / DECAY) - 1);
+
+/**
+ * Scheduling state for words saved before the graded scheduler existed.
+ * A word at level N gets the stability of the interval it was last scheduled with.
+ */
+export const scheduleFromLevel = (level: number): Pick<WordEntry, 'ease' | 'stability' | 'lapses'> => {
+  const capped = clamp(Math.floor(level || 0), 0, LEVEL_THRESHOLDS.length);
+  return {
+    ease: DEFAULT_EASE,
+    stability: capped > 0 ? LEVEL_THRESHOLDS[capped - 1] : 0,
+    lapses: 0,
+  };
+};
+
+export const calculateNextReview = (
+  word: WordEntry,
+  grade: ReviewGrade,
+  targetRetention: number = DEFAULT_TARGET_RETENTION,
+  now: number = Date.now()
+): ScheduleFields => {
+  const prevStability = word.stability || 0;
+  const isNew = prevStability <= 0;
+  const elapsedDays = word.lastReviewedAt ? Math.max(0, (now - word.lastReviewedAt) / DAY_MS) : 0;
+  const lateDays = Math.max(0, elapsedDays - prevStability);
+
+  let ease = word.ease || DEFAULT_EASE;
+  let lapses = word.lapses || 0;
+  let stability: number;
+
+  if (grade === ReviewGrade.AGAIN) {
+    if (!isNew) lapses += 1;
+    ease = clamp(ease - 0.2, MIN_EASE, MAX_EASE);
+    stability = prevStability * LAPSE_MULTIPLIER;
+    // Forgotten words come back after a short relearning delay rather than "now"
+    return {
+      reviewLevel: levelFromStability(stability),
+      nextReviewDate: now + RELEARN_DELAY_MS,
+      lastReviewedAt: now,
+      ease,
+      stability,
+      lapses,
+    };
+  }
+
+  if (isNew) {
+    stability = INITIAL_STABILITY[grade];
+    if (grade === ReviewGrade.EASY) ease = clamp(ease + 0.15, MIN_EASE, MAX_EASE);
+  } else if (grade === ReviewGrade.HARD) {
+    ease = clamp(ease - 0.15, MIN_EASE, MAX_EASE);
+    stability = prevStability * HARD_MULTIPLIER;
+  } else if (grade === ReviewGrade.GOOD) {
+    // Remembering after an overdue gap is evidence of a stronger memory
+    stability = (prevStability + lateDays / 2) * ease;
+  } else {
+    stability = (prevStability + lateDays) * ease * EASY_BONUS;
+    ease = clamp(ease + 0.15, MIN_EASE, MAX_EASE);
+  }
+
+  const intervalDays = clamp(fuzzInterval(Math.round(intervalForRetention(stability, targetRetention)), word), 1, MAX_INTERVAL_DAYS);
+
+  return {
+    reviewLevel: levelFromStability(stability),
+    nextReviewDate: now + intervalDays * DAY_MS,
+    lastReviewedAt: now,
+    ease,
+    stability,
+    lapses,
+  };
+};
+
+/**
+ * Time until the next review for each grade, used to label the rating buttons.
+ */
+export const previewIntervals = (word: WordEntry, targetRetention: number, now: number = Date.now()): Record<ReviewGrade, number> => {
+  const grades = [ReviewGrade.AGAIN, ReviewGrade.HARD, ReviewGrade.GOOD, ReviewGrade.EASY];
+  return grades.reduce((acc, grade) => {
+    acc[grade] = calculateNextReview(word, grade, targetRetention, now).nextReviewDate - now;
+    return acc;
+  }, {} as Record<ReviewGrade, number>);
+};
+
+export const formatInterval = (ms: number): string => {
+  const minutes = Math.round(ms / 60000);
+  if (minutes < 60) return `${minutes}m`;
+  const days = ms / DAY_MS;
+  if (days < 1) return `${Math.round(minutes / 60)}h`;
+  if (days < 30) return `${Math.round(days)}d`;
+  if (days < 365) return `${Math.round(days / 30)}mo`;
+  return `${(days / 365).toFixed(1)}y`;
+};
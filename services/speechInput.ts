@@ -0,0 +1,138 @@
+
+/**
+ * Microphone helpers: browser speech recognition (Web Speech API) and raw
+ * recording through MediaRecorder. Both can run at once, so a speaking drill
+ * gets a transcript to grade and a clip to play back.
+ */
+
+export interface RecognitionAlternative {
+  transcript: string;
+  confidence: number; // 0..1; some browsers report 0 when they don't know
+}
+
+export interface RecognitionResult extends RecognitionAlternative {
+  alternatives: RecognitionAlternative[];
+}
+
+export type SpeechInputErrorCode = 'unsupported' | 'not-allowed' | 'no-speech' | 'aborted' | 'failed';
+
+export class SpeechInputError extends Error {
+  code: SpeechInputErrorCode;
+
+  constructor(code: SpeechInputErrorCode, message: string) {
+    super(message);
+    this.name = 'SpeechInputError';
+    this.code = code;
+  }
+}
+
+const ERROR_MESSAGES: Record<SpeechInputErrorCode, string> = {
+  unsupported: "浏览器不支持语音识别",
+  'not-allowed': "没有麦克风权限，请在浏览器设置中允许",
+  'no-speech': "没有听到声音，再试一次",
+  aborted: "语音识别已取消",
+  failed: "语音识别失败，请重试",
+};
+
+const speechError = (code: SpeechInputErrorCode) => new SpeechInputError(code, ERROR_MESSAGES[code]);
+
+const recognitionClass = (): any =>
+  typeof window === 'undefined' ? undefined : (window as any).SpeechRecognition || (window as any).webkitSpeechRecognition;
+
+export const isSpeechRecognitionSupported = () => !!recognitionClass();
+
+export interface RecognizeOptions {
+  signal?: AbortSignal;
+  maxAlternatives?: number;
+  onStart?: () => void;
+}
+
+/**
+ * Listens for a single utterance. Rejects with SpeechInputError.
+ */
+export const recognizeSpeech = (locale: string, { signal, maxAlternatives = 3, onStart }: RecognizeOptions = {}): Promise<RecognitionResult> =>
+  new Promise((resolve, reject) => {
+    const Recognition = recognitionClass();
+    if (!Recognition) return reject(speechError('unsupported'));
+    if (signal?.aborted) return reject(speechError('aborted'));
+
+    const recognition = new Recognition();
+    recognition.lang = locale;
+    recognition.interimResults = false;
+    recognition.maxAlternatives = maxAlternatives;
+
+    let settled = false;
+    const finish = (fn: () => void) => {
+      if (settled) return;
+      settled = true;
+      signal?.removeEventListener('abort', onAbort);
+      fn();
+    };
+    const onAbort = () => {
+      recognition.abort();
+      finish(() => reject(speechError('aborted')));
+    };
+    signal?.addEventListener('abort', onAbort);
+
+    recognition.onstart = () => onStart?.();
+    recognition.onresult = (event: any) => {
+      const result = event.results[0];
+      const alternatives: RecognitionAlternative[] = Array.from({ length: result.length }, (_, i) => ({
+        transcript: String(result[i].transcript || '').trim(),
+        confidence: Number(result[i].confidence) || 0,
+      }));
+      finish(() => resolve({ ...alternatives[0], alternatives }));
+    };
+    recognition.onerror = (event: any) => {
+      const code: SpeechInputErrorCode =
+        event.error === 'not-allowed' || event.error === 'service-not-allowed' ? 'not-allowed'
+        : event.error === 'no-speech' ? 'no-speech'
+        : event.error === 'aborted' ? 'aborted'
+        : 'failed';
+      finish(() => reject(speechError(code)));
+    };
+    // Ending without a result or error means nothing was heard
+    recognition.onend = () => finish(() => reject(speechError('no-speech')));
+    recognition.start();
+  });
+
+export interface Recorder {
+  stop: () => Promise<Blob>;
+  cancel: () => void;
+}
+
+/**
+ * Starts recording from the microphone. Resolves to null where MediaRecorder
+ * isn't available or access is refused; recording is always optional.
+ */
+export const startRecording = async (): Promise<Recorder | null> => {
+  if (typeof MediaRecorder === 'undefined' || !navigator.mediaDevices?.getUserMedia) return null;
+  let stream: MediaStream;
+  try {
+    stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+  } catch (e) {
+    console.warn("Microphone unavailable for recording", e);
+    return null;
+  }
+
+  const recorder = new MediaRecorder(stream);
+  const chunks: Blob[] = [];
+  recorder.ondataavailable = e => { if (e.data.size) chunks.push(e.data); };
+  const release = () => stream.getTracks().forEach(track => track.stop());
+  recorder.start();
+
+  return {
+    stop: () => new Promise(resolve => {
+      if (recorder.state === 'inactive') return resolve(new Blob(chunks, { type: recorder.mimeType }));
+      recorder.onstop = () => {
+        release();
+        resolve(new Blob(chunks, { type: recorder.mimeType }));
+      };
+      recorder.stop();
+    }),
+    cancel: () => {
+      if (recorder.state !== 'inactive') recorder.stop();
+      release();
+    },
+  };
+};
@@ -0,0 +1,162 @@
+import { AppSettings } from '../types';
+import { STORES, idbGet, idbPut, promisifyRequest, withTransaction } from './db';
+import { getTtsProvider } from './geminiService';
+import { getLanguage } from './languages';
+import { ClipTtsProvider, TtsRequest, TtsVoice, browserTtsProvider } from './ttsProviders';
+import { isAbortError } from './imageProviders';
+
+/**
+ * Reads text aloud with the configured TTS provider. Clip providers are asked
+ * once per text and voice; the audio is kept in IndexedDB so later reviews of
+ * the same word play offline and cost nothing.
+ */
+
+export const AUDIO_CACHE_BUDGET_BYTES = 20 * 1024 * 1024;
+
+interface CachedClip {
+  key: string;
+  text: string;
+  blob: Blob;
+  size: number;
+  createdAt: number;
+  lastUsedAt: number;
+}
+
+export type VoiceSettings = Pick<AppSettings, 'ttsVoices' | 'ttsRate' | 'ttsPitch'>;
+
+// --- Clip cache ---
+
+const hashText = async (text: string) => {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(text));
+  return Array.from(new Uint8Array(digest).slice(0, 8)).map(b => b.toString(16).padStart(2, '0')).join('');
+};
+
+const clipKey = async (provider: ClipTtsProvider, text: string, locale: string, voice?: string) =>
+  `${provider.id}:${voice || 'default'}:${locale}:${await hashText(text.trim().toLowerCase())}`;
+
+// Drops least-recently-used clips until the cache fits in AUDIO_CACHE_BUDGET_BYTES
+const evictOverBudget = () =>
+  withTransaction(STORES.AUDIO_CLIPS, 'readwrite', async tx => {
+    const store = tx.objectStore(STORES.AUDIO_CLIPS);
+    const all = await promisifyRequest<CachedClip[]>(store.getAll());
+    let total = all.reduce((sum, c) => sum + c.size, 0);
+    const victims: string[] = [];
+    for (const clip of all.sort((a, b) => a.lastUsedAt - b.lastUsedAt)) {
+      if (total <= AUDIO_CACHE_BUDGET_BYTES) break;
+      total -= clip.size;
+      victims.push(clip.key);
+    }
+    await Promise.all(victims.map(key => promisifyRequest(store.delete(key))));
+  });
+
+// One request per clip even if the same word is played twice while it loads
+const pending = new Map<string, Promise<Blob>>();
+
+const getClip = async (provider: ClipTtsProvider, text: string, request: TtsRequest): Promise<Blob> => {
+  const key = await clipKey(provider, text, request.locale, request.voice);
+  const cached = await idbGet<CachedClip>(STORES.AUDIO_CLIPS, key).catch(() => undefined);
+  if (cached) {
+    idbPut(STORES.AUDIO_CLIPS, { ...cached, lastUsedAt: Date.now() }).catch(() => undefined);
+    return cached.blob;
+  }
+
+  const active = pending.get(key);
+  if (active) return active;
+  // Not tied to the caller's signal: a clip that finishes downloading is still worth keeping
+  const job = (async () => {
+    try {
+      const blob = await provider.synthesize(text, { locale: request.locale, voice: request.voice });
+      const now = Date.now();
+      await idbPut(STORES.AUDIO_CLIPS, { key, text, blob, size: blob.size, createdAt: now, lastUsedAt: now } as CachedClip);
+      evictOverBudget().catch(e => console.warn("Audio cache eviction failed", e));
+      return blob;
+    } finally {
+      pending.delete(key);
+    }
+  })();
+  pending.set(key, job);
+  return job;
+};
+
+const playBlob = (blob: Blob, rate: number, signal: AbortSignal): Promise<void> =>
+  new Promise(resolve => {
+    if (signal.aborted) return resolve();
+    const url = URL.createObjectURL(blob);
+    const audio = new Audio(url);
+    audio.playbackRate = rate;
+    const finish = () => {
+      signal.removeEventListener('abort', onAbort);
+      audio.pause();
+      URL.revokeObjectURL(url);
+      resolve();
+    };
+    const onAbort = () => finish();
+    audio.onended = finish;
+    audio.onerror = finish;
+    signal.addEventListener('abort', onAbort, { once: true });
+    audio.play().catch(finish);
+  });
+
+// --- Playback ---
+
+let current: AbortController | null = null;
+
+/**
+ * Stops whatever speakText is playing; its promise resolves.
+ */
+export const stopSpeaking = () => {
+  current?.abort();
+  current = null;
+};
+
+/**
+ * Speaks `text` in the given language (a WordEntry.language code) and resolves
+ * when it has finished or was stopped. Starting a new text stops the previous one.
+ * A clip provider that fails falls back to the browser's own voices.
+ */
+export const speakText = async (text: string, language: string | undefined, voice: VoiceSettings, signal?: AbortSignal): Promise<void> => {
+  if (!text.trim()) return;
+  stopSpeaking();
+  const controller = new AbortController();
+  current = controller;
+  if (signal) {
+    if (signal.aborted) controller.abort();
+    else signal.addEventListener('abort', () => controller.abort(), { once: true });
+  }
+
+  const lang = getLanguage(language);
+  const request: TtsRequest = {
+    locale: lang.locale,
+    voice: voice.ttsVoices[lang.code],
+    rate: voice.ttsRate,
+    pitch: voice.ttsPitch,
+    signal: controller.signal,
+  };
+
+  const provider = getTtsProvider();
+  try {
+    if (provider.kind === 'live') return await provider.speak(text, request);
+    try {
+      const blob = await getClip(provider, text, request);
+      return await playBlob(blob, request.rate, controller.signal);
+    } catch (e) {
+      if (isAbortError(e) || controller.signal.aborted) return;
+      console.warn("TTS clip failed, using browser voice", e);
+      return await browserTtsProvider.speak(text, { ...request, voice: undefined });
+    }
+  } finally {
+    if (current === controller) current = null;
+  }
+};
+
+export const listVoices = (language?: string): Promise<TtsVoice[]> =>
+  getTtsProvider().listVoices(getLanguage(language).locale).catch(() => []);
+
+export const getAudioCacheUsage = async () => {
+  const all = await withTransaction(STORES.AUDIO_CLIPS, 'readonly', tx =>
+    promisifyRequest<CachedClip[]>(tx.objectStore(STORES.AUDIO_CLIPS).getAll()));
+  return { count: all.length, bytes: all.reduce((sum, c) => sum + c.size, 0) };
+};
+
+export const clearAudioCache = () =>
+  withTransaction(STORES.AUDIO_CLIPS, 'readwrite', tx => promisifyRequest(tx.objectStore(STORES.AUDIO_CLIPS).clear()));
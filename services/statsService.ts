@@ -0,0 +1,172 @@
+
+import { DailyStats, ReviewDigest, ReviewEvent, WordEntry } from '../types';
+import { INTERVAL_BUCKETS, dayKey, digestEvents, getReviewDigests, getReviewEvents } from './reviewLog';
+import { getStatsHistory, getWords } from './storageService';
+
+/**
+ * Learning statistics for the dashboard, computed from the words, the per-day
+ * stats history and the review log. Days are UTC dates, like DailyStats.
+ */
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const HEATMAP_WEEKS = 12;
+export const WORDS_PER_WEEK_WEEKS = 12;
+export const FORECAST_DAYS = 30;
+export const MAX_LEVEL = 5;
+
+export interface HeatmapDay {
+  date: string;
+  reviews: number;
+  wordsAdded: number;
+  inFuture: boolean; // Padding after today in the last column
+}
+
+export interface RetentionBucket {
+  key: string;
+  reviews: number;
+  passed: number;
+  rate: number | null; // passed / reviews, null without graded reviews
+}
+
+export interface StatsDashboard {
+  heatmap: HeatmapDay[][]; // Columns of 7 days, Sunday first
+  currentStreak: number;
+  longestStreak: number;
+  totalReviews: number;
+  wordsPerWeek: { weekStart: string; count: number }[];
+  dueForecast: { date: string; count: number }[]; // Today includes everything overdue
+  retention: RetentionBucket[];
+  overallRetention: number | null;
+  levels: number[]; // Word count per reviewLevel, 0..MAX_LEVEL
+}
+
+const startOfDay = (timestamp: number) => Math.floor(timestamp / DAY_MS) * DAY_MS;
+
+// Sunday (UTC) of the week containing `timestamp`
+const startOfWeek = (timestamp: number) => startOfDay(timestamp) - new Date(timestamp).getUTCDay() * DAY_MS;
+
+/**
+ * Reviews per day across compacted digests and raw events.
+ */
+const mergeDigests = (digests: ReviewDigest[], events: ReviewEvent[]) => {
+  const byDate = new Map<string, ReviewDigest>();
+  [...digests, ...digestEvents(events)].forEach(d => {
+    const existing = byDate.get(d.date);
+    if (!existing) {
+      byDate.set(d.date, { ...d, byMode: { ...d.byMode }, byInterval: { ...d.byInterval } });
+      return;
+    }
+    existing.reviews += d.reviews;
+    existing.passed += d.passed;
+    Object.entries(d.byMode).forEach(([mode, count]) => {
+      const key = mode as keyof ReviewDigest['byMode'];
+      existing.byMode[key] = (existing.byMode[key] || 0) + (count || 0);
+    });
+    Object.entries(d.byInterval).forEach(([key, slot]) => {
+      const prev = existing.byInterval[key] || { reviews: 0, passed: 0 };
+      existing.byInterval[key] = { reviews: prev.reviews + slot.reviews, passed: prev.passed + slot.passed };
+    });
+  });
+  return byDate;
+};
+
+/**
+ * Current streak counts back from today, or from yesterday if today has no
+ * activity yet, so the streak isn't shown as broken before the day is over.
+ */
+const computeStreaks = (activeDays: Set<string>, now: number) => {
+  let current = 0;
+  let day = startOfDay(now);
+  if (!activeDays.has(dayKey(day))) day -= DAY_MS;
+  while (activeDays.has(dayKey(day))) {
+    current++;
+    day -= DAY_MS;
+  }
+
+  let longest = 0;
+  let run = 0;
+  let previous: number | null = null;
+  Array.from(activeDays).sort().forEach(date => {
+    const t = Date.parse(date);
+    run = previous !== null && t - previous === DAY_MS ? run + 1 : 1;
+    longest = Math.max(longest, run);
+    previous = t;
+  });
+  return { current, longest: Math.max(longest, current) };
+};
+
+export const buildStatsDashboard = (
+  words: WordEntry[],
+  history: DailyStats[],
+  events: ReviewEvent[],
+  digests: ReviewDigest[],
+  now: number = Date.now()
+): StatsDashboard => {
+  const reviewDays = mergeDigests(digests, events);
+  const addedByDay = new Map(history.map(s => [s.date, s.wordsAdded]));
+
+  // A day counts towards the streak if anything was learned or reviewed
+  const activeDays = new Set<string>();
+  reviewDays.forEach((d, date) => { if (d.reviews > 0) activeDays.add(date); });
+  history.forEach(s => { if (s.wordsAdded > 0 || s.reviewSessionDone) activeDays.add(s.date); });
+  const { current, longest } = computeStreaks(activeDays, now);
+
+  const today = startOfDay(now);
+  const firstDay = startOfWeek(now) - (HEATMAP_WEEKS - 1) * 7 * DAY_MS;
+  const heatmap: HeatmapDay[][] = [];
+  for (let week = 0; week < HEATMAP_WEEKS; week++) {
+    const column: HeatmapDay[] = [];
+    for (let weekday = 0; weekday < 7; weekday++) {
+      const t = firstDay + (week * 7 + weekday) * DAY_MS;
+      const date = dayKey(t);
+      column.push({ date, reviews: reviewDays.get(date)?.reviews || 0, wordsAdded: addedByDay.get(date) || 0, inFuture: t > today });
+    }
+    heatmap.push(column);
+  }
+
+  const thisWeek = startOfWeek(now);
+  const wordsPerWeek = Array.from({ length: WORDS_PER_WEEK_WEEKS }, (_, i) => {
+    const start = thisWeek - (WORDS_PER_WEEK_WEEKS - 1 - i) * 7 * DAY_MS;
+    return { weekStart: dayKey(start), count: words.filter(w => w.addedAt >= start && w.addedAt < start + 7 * DAY_MS).length };
+  });
+
+  const dueForecast = Array.from({ length: FORECAST_DAYS }, (_, i) => ({ date: dayKey(today + i * DAY_MS), count: 0 }));
+  words.forEach(w => {
+    const offset = Math.max(0, Math.floor((w.nextReviewDate - today) / DAY_MS));
+    if (offset < FORECAST_DAYS) dueForecast[offset].count++;
+  });
+
+  // True retention: first reviews of brand-new words say nothing about memory
+  const retention: RetentionBucket[] = INTERVAL_BUCKETS.filter(b => b.key !== 'new').map(({ key }) => {
+    let reviews = 0;
+    let passed = 0;
+    reviewDays.forEach(d => {
+      reviews += d.byInterval[key]?.reviews || 0;
+      passed += d.byInterval[key]?.passed || 0;
+    });
+    return { key, reviews, passed, rate: reviews ? passed / reviews : null };
+  });
+  const graded = retention.reduce((sum, b) => sum + b.reviews, 0);
+  const gradedPassed = retention.reduce((sum, b) => sum + b.passed, 0);
+
+  const levels = Array.from({ length: MAX_LEVEL + 1 }, () => 0);
+  words.forEach(w => { levels[Math.min(MAX_LEVEL, Math.max(0, w.reviewLevel || 0))]++; });
+
+  return {
+    heatmap,
+    currentStreak: current,
+    longestStreak: longest,
+    totalReviews: Array.from(reviewDays.values()).reduce((sum, d) => sum + d.reviews, 0),
+    wordsPerWeek,
+    dueForecast,
+    retention,
+    overallRetention: graded ? gradedPassed / graded : null,
+    levels,
+  };
+};
+
+export const loadStatsDashboard = async (): Promise<StatsDashboard> => {
+  const [words, history, events, digests] = await Promise.all([getWords(), getStatsHistory(), getReviewEvents(), getReviewDigests()]);
+  return buildStatsDashboard(words, history, events, digests);
+};
@@ -1,42 +1,423 @@
 
-import { DailyStats, PetState, PetStage, WordEntry } from '../types';
+import { ActiveReviewSession, AppSettings, CachedCardImage, CachedLookup, DailyStats, EnrichmentJob, PetState, PetStage, ReviewDigest, ReviewEvent, WordEntry } from '../types';
+import { DEFAULT_EASE, DEFAULT_TARGET_RETENTION, clampRetention } from './schedulerService';
+import { RepositorySnapshot, StorageRepository, indexedDBRepository } from './repository';
+import { CURRENT_SCHEMA_VERSION, applyMigrations } from './migrations';
+import { DEFAULT_NATIVE_LANGUAGE, DEFAULT_TARGET_LANGUAGE } from './languages';
+import { mergeForms, wordForms } from './wordFamilies';
+import { WordRecording, deleteRecording, forgetRecordingUrls, getRecording, saveRecording } from './recordings';
+import { mergeTags } from './decks';
 
-const KEYS = {
+// Pre-IndexedDB localStorage keys, read once by migrateFromLocalStorage
+const LEGACY_KEYS = {
   WORDS: 'lingopet_words',
   PET: 'lingopet_pet_v2',
   STATS: 'lingopet_stats',
+  SETTINGS: 'lingopet_settings',
 };
 
+const META_KEYS = {
+  SETTINGS: 'settings',
+  LEGACY_IMPORTED: 'legacyImported',
+  SCHEMA_VERSION: 'schemaVersion',
+  MIGRATION_BACKUP: 'migrationBackup',
+  ACTIVE_SESSION: 'activeReviewSession',
+  IMPORT_QUEUE: 'importQueue',
+};
+
+const IMAGE_REF_PREFIX = 'idb-image:';
+
+const repository: StorageRepository = indexedDBRepository;
+
 const getTodayStr = () => new Date().toISOString().split('T')[0];
 
-export const getWords = (): WordEntry[] => {
-  const data = localStorage.getItem(KEYS.WORDS);
-  const words: WordEntry[] = data ? JSON.parse(data) : [];
-  // Ensure reviewCount exists for legacy data
-  return words.map(w => ({ ...w, reviewCount: w.reviewCount || 0 }));
+// --- Images ---
+
+// ref -> object URL, and the reverse so hydrated URLs can be saved back without re-storing
+const objectUrls = new Map<string, string>();
+const refsByObjectUrl = new Map<string, string>();
+
+export const dataUrlToBlob = (dataUrl: string): Blob => {
+  const [header, body] = dataUrl.split(',');
+  const mime = header.match(/^data:([^;,]+)/)?.[1] || 'application/octet-stream';
+  const raw = header.includes(';base64') ? atob(body) : decodeURIComponent(body);
+  const bytes = new Uint8Array(raw.length);
+  for (let i = 0; i < raw.length; i++) bytes[i] = raw.charCodeAt(i);
+  return new Blob([bytes], { type: mime });
+};
+
+export const blobToDataUrl = (blob: Blob): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+
+export const isImageRef = (src?: string): src is string => !!src && src.startsWith(IMAGE_REF_PREFIX);
+
+/**
+ * Moves a data URL into the image store and returns a ref to persist in its place.
+ * Refs, hydrated object URLs and remote URLs are returned as their persistable form.
+ */
+export const storeImage = async (src: string): Promise<string> => {
+  if (src.startsWith(IMAGE_REF_PREFIX)) return src;
+  const knownRef = refsByObjectUrl.get(src);
+  if (knownRef) return knownRef;
+  if (!src.startsWith('data:')) return src;
+
+  await ensureReady();
+  const ref = `${IMAGE_REF_PREFIX}${crypto.randomUUID()}`;
+  await repository.putImage(ref, dataUrlToBlob(src));
+  return ref;
+};
+
+/**
+ * Turns a persisted image ref into something an <img> can display.
+ */
+export const resolveImage = async (src?: string): Promise<string | undefined> => {
+  if (!isImageRef(src)) return src;
+  const cached = objectUrls.get(src);
+  if (cached) return cached;
+
+  await ensureReady();
+  const blob = await repository.getImage(src);
+  if (!blob) return undefined;
+  const url = URL.createObjectURL(blob);
+  objectUrls.set(src, url);
+  refsByObjectUrl.set(url, src);
+  return url;
+};
+
+export const getImageBlob = async (src?: string): Promise<Blob | undefined> => {
+  if (!isImageRef(src)) return undefined;
+  await ensureReady();
+  return repository.getImage(src);
+};
+
+const deleteImage = async (ref?: string) => {
+  if (!isImageRef(ref)) return;
+  const url = objectUrls.get(ref);
+  if (url) {
+    URL.revokeObjectURL(url);
+    objectUrls.delete(ref);
+    refsByObjectUrl.delete(url);
+  }
+  await repository.deleteImage(ref);
+};
+
+// --- Startup ---
+
+/**
+ * One-time copy of the old localStorage blobs into IndexedDB. Inline base64
+ * images are split out into the image store on the way. A key that doesn't
+ * parse is skipped and left where it is; the rest are only removed after the
+ * whole batch has committed.
+ */
+const migrateFromLocalStorage = async () => {
+  if (await repository.getMeta<boolean>(META_KEYS.LEGACY_IMPORTED)) return;
+
+  const imported: string[] = [];
+  // Parses one legacy key; undefined (and the key kept) when it is missing, not JSON or not the expected shape
+  const readLegacy = <T>(key: string, isValid: (value: unknown) => boolean): T | undefined => {
+    const raw = localStorage.getItem(key);
+    if (!raw) return undefined;
+    let value: unknown;
+    try {
+      value = JSON.parse(raw);
+    } catch (e) {
+      console.warn(`Skipped unreadable legacy data "${key}"`, e);
+      return undefined;
+    }
+    if (!isValid(value)) {
+      console.warn(`Skipped malformed legacy data "${key}"`);
+      return undefined;
+    }
+    imported.push(key);
+    return value as T;
+  };
+  const isRecord = (value: unknown) => typeof value === 'object' && value !== null && !Array.isArray(value);
+
+  const snapshot: RepositorySnapshot = { words: [], stats: [], images: {}, meta: {} };
+  const extractImage = (src?: string) => {
+    if (!src || !src.startsWith('data:')) return src;
+    const ref = `${IMAGE_REF_PREFIX}${crypto.randomUUID()}`;
+    snapshot.images[ref] = dataUrlToBlob(src);
+    return ref;
+  };
+
+  const words = readLegacy<WordEntry[]>(LEGACY_KEYS.WORDS, Array.isArray);
+  if (words) {
+    snapshot.words = words.map(w => ({ ...w, todayImage: extractImage(w.todayImage) }));
+  }
+
+  const parsed = readLegacy<PetState>(LEGACY_KEYS.PET, isRecord);
+  if (parsed) {
+    const imageUrls: Record<number, string> = {};
+    Object.entries(parsed.imageUrls || {}).forEach(([stage, src]) => {
+      const ref = extractImage(src);
+      if (ref) imageUrls[Number(stage)] = ref;
+    });
+    snapshot.pet = {
+      ...parsed,
+      imageUrls,
+      postcardCollection: (parsed.postcardCollection || []).map(src => extractImage(src) as string),
+    };
+  }
+
+  const stats = readLegacy<DailyStats>(LEGACY_KEYS.STATS, isRecord);
+  if (stats) snapshot.stats = [stats];
+
+  const settings = readLegacy<AppSettings>(LEGACY_KEYS.SETTINGS, isRecord);
+  if (settings) snapshot.meta[META_KEYS.SETTINGS] = settings;
+
+  snapshot.meta[META_KEYS.LEGACY_IMPORTED] = true;
+  await repository.writeSnapshot(snapshot);
+
+  imported.forEach(key => localStorage.removeItem(key));
+};
+
+// Records as they were before the last schema migration, at their old version
+interface MigrationBackup {
+  version: number;
+  createdAt: number;
+  words: WordEntry[];
+  pet?: PetState;
+  stats: DailyStats[];
+}
+
+/**
+ * Brings words, pet and stats up to CURRENT_SCHEMA_VERSION. A copy of the
+ * pre-migration records is saved first; the migrated data and the new version
+ * number are then written in one transaction, so a failure leaves the old
+ * data untouched and the backup in place.
+ */
+const runSchemaMigrations = async () => {
+  const fromVersion = (await repository.getMeta<number>(META_KEYS.SCHEMA_VERSION)) || 0;
+  if (fromVersion >= CURRENT_SCHEMA_VERSION) return;
+
+  const [words, pet, stats] = await Promise.all([repository.getAllWords(), repository.getPet(), repository.getAllStats()]);
+  const backup: MigrationBackup = { version: fromVersion, createdAt: Date.now(), words, pet, stats };
+  await repository.putMeta(META_KEYS.MIGRATION_BACKUP, backup);
+
+  const migrated = applyMigrations({ words, pet, stats }, fromVersion);
+  await repository.writeSnapshot(
+    { ...migrated, images: {}, meta: { [META_KEYS.SCHEMA_VERSION]: CURRENT_SCHEMA_VERSION } },
+    { replace: true }
+  );
+  console.info(`Storage schema migrated v${fromVersion} -> v${CURRENT_SCHEMA_VERSION}`);
+};
+
+/**
+ * The pre-migration copy packaged as a full export at its old schema version,
+ * so it can be saved as a backup file and restored by a fixed release. Reads
+ * storage directly instead of awaiting ensureReady: it is meant for when
+ * startup has failed.
+ */
+export const exportMigrationBackup = async (): Promise<StorageExport | undefined> => {
+  const backup = await repository.getMeta<MigrationBackup>(META_KEYS.MIGRATION_BACKUP);
+  if (!backup) return undefined;
+  const [settings, reviewEvents, reviewDigests, recordings] = await Promise.all([
+    repository.getMeta<Partial<AppSettings>>(META_KEYS.SETTINGS),
+    repository.getAllReviewEvents(),
+    repository.getAllReviewDigests(),
+    repository.getAllRecordings(),
+  ]);
+  // Old pets may predate imageUrls and postcards
+  const refs = [
+    ...backup.words.map(w => w.todayImage),
+    ...Object.values(backup.pet?.imageUrls || {}),
+    ...(backup.pet?.postcardCollection || []),
+  ].filter(isImageRef);
+  const images: Record<string, Blob> = {};
+  for (const ref of refs) {
+    const blob = await repository.getImage(ref);
+    if (blob) images[ref] = blob;
+  }
+  return {
+    schemaVersion: backup.version,
+    words: backup.words,
+    pet: backup.pet,
+    stats: backup.stats,
+    settings: { ...DEFAULT_SETTINGS, ...settings },
+    images,
+    reviewEvents,
+    reviewDigests,
+    lookups: [],
+    cardImages: [],
+    recordings,
+  };
 };
 
-export const saveWord = (newWord: WordEntry) => {
-  const words = getWords();
-  const existingIndex = words.findIndex(w => w.word.toLowerCase() === newWord.word.toLowerCase());
-  if (existingIndex >= 0) {
-    words[existingIndex] = { ...words[existingIndex], ...newWord, id: words[existingIndex].id };
-  } else {
-    words.push({ ...newWord, reviewCount: 0 }); // Initialize count
+let readyPromise: Promise<void> | null = null;
+
+/**
+ * Resolves once the database is open, legacy data has been imported and the schema is current.
+ * Every public function awaits this, so callers never need to.
+ */
+export const ensureReady = (): Promise<void> => {
+  if (!readyPromise) {
+    readyPromise = migrateFromLocalStorage().then(runSchemaMigrations);
+    readyPromise.catch(e => {
+      console.error("Storage init failed:", e);
+      readyPromise = null;
+    });
   }
-  localStorage.setItem(KEYS.WORDS, JSON.stringify(words));
+  return readyPromise;
 };
 
-export const updateWord = (id: string, updates: Partial<WordEntry>) => {
-  const words = getWords();
-  const idx = words.findIndex(w => w.id === id);
-  if (idx !== -1) {
-    words[idx] = { ...words[idx], ...updates };
-    localStorage.setItem(KEYS.WORDS, JSON.stringify(words));
+// --- Words ---
+
+/**
+ * A brand-new, never-reviewed entry. Scheduling fields start at their defaults.
+ */
+export const createWordEntry = (fields: Pick<WordEntry, 'word' | 'language' | 'definition' | 'context'> & Partial<WordEntry>): WordEntry => ({
+  id: crypto.randomUUID(),
+  addedAt: Date.now(),
+  lastReviewedAt: null,
+  reviewLevel: 0,
+  reviewCount: 0,
+  nextReviewDate: Date.now(),
+  ease: DEFAULT_EASE,
+  stability: 0,
+  lapses: 0,
+  ...fields,
+});
+
+export const getWords = async (): Promise<WordEntry[]> => {
+  await ensureReady();
+  return repository.getAllWords();
+};
+
+// Learner history that must survive when new dictionary content is merged into an entry
+const PROGRESS_FIELDS = ['addedAt', 'lastReviewedAt', 'reviewLevel', 'reviewCount', 'nextReviewDate', 'ease', 'stability', 'lapses'] as const;
+
+/**
+ * Saves a word, merging it into an existing entry that shares any form
+ * (lemma or variant). The merged entry takes the new content and lemma but
+ * keeps its review history, so every form counts toward one schedule.
+ * Resolves to the stored entry.
+ */
+export const saveWord = async (newWord: WordEntry): Promise<WordEntry> => {
+  const words = await getWords();
+  const forms = wordForms(newWord);
+  const existing = words.find(w => w.language === newWord.language && wordForms(w).some(f => forms.includes(f)));
+  const todayImage = newWord.todayImage ? await storeImage(newWord.todayImage) : undefined;
+  if (existing) {
+    if (todayImage && existing.todayImage !== todayImage) await deleteImage(existing.todayImage);
+    const progress = Object.fromEntries(PROGRESS_FIELDS.map(key => [key, existing[key]]));
+    const merged: WordEntry = {
+      ...existing,
+      ...newWord,
+      ...progress,
+      variants: mergeForms(newWord.word, [existing.word], existing.variants, newWord.variants),
+      family: mergeForms(newWord.word, existing.family, newWord.family),
+      deck: existing.deck ?? newWord.deck,
+      tags: mergeTags(existing.tags, newWord.tags),
+      todayImage: todayImage ?? existing.todayImage,
+      id: existing.id,
+    };
+    await repository.putWord(merged);
+    return merged;
   }
+  const created = { ...newWord, todayImage, reviewCount: 0 }; // Initialize count
+  await repository.putWord(created);
+  return created;
 };
 
-const INITIAL_PET: PetState = {
+export const updateWord = async (id: string, updates: Partial<WordEntry>) => {
+  await ensureReady();
+  const word = await repository.getWord(id);
+  if (!word) return;
+  const patch = { ...updates };
+  if (updates.todayImage) {
+    patch.todayImage = await storeImage(updates.todayImage);
+    if (word.todayImage !== patch.todayImage) await deleteImage(word.todayImage);
+  }
+  await repository.putWord({ ...word, ...patch });
+};
+
+export const getWord = async (id: string): Promise<WordEntry | undefined> => {
+  await ensureReady();
+  return repository.getWord(id);
+};
+
+/**
+ * What deleteWord removed, so restoreWord can put it back exactly.
+ */
+export interface DeletedWord {
+  word: WordEntry;
+  image?: Blob; // Blob behind word.todayImage
+  recording?: WordRecording;
+}
+
+/**
+ * Removes a word with its stored image and recording. Its review events stay
+ * in the log so past statistics don't change.
+ */
+export const deleteWord = async (id: string): Promise<DeletedWord | undefined> => {
+  await ensureReady();
+  const word = await repository.getWord(id);
+  if (!word) return undefined;
+  const [image, recording] = await Promise.all([getImageBlob(word.todayImage), getRecording(id)]);
+  await repository.deleteWord(id);
+  await Promise.all([deleteImage(word.todayImage), recording ? deleteRecording(id) : undefined]);
+  return { word, image, recording };
+};
+
+export const restoreWord = async ({ word, image, recording }: DeletedWord) => {
+  await ensureReady();
+  if (image && isImageRef(word.todayImage)) await repository.putImage(word.todayImage, image);
+  await repository.putWord(word);
+  if (recording) await saveRecording(recording);
+};
+
+// Sturdier memory wins, then more practice
+const hasBetterHistory = (a: WordEntry, b: WordEntry) =>
+  (a.stability || 0) !== (b.stability || 0) ? (a.stability || 0) > (b.stability || 0) : (a.reviewCount || 0) >= (b.reviewCount || 0);
+
+/**
+ * Folds `mergeId` into `keepId`: the kept entry's text wins, gaps are filled
+ * from the other, and the schedule comes from whichever has the better review
+ * history. The other entry's forms become variants and its review events move
+ * over. Resolves to the merged entry.
+ */
+export const mergeWords = async (keepId: string, mergeId: string): Promise<WordEntry | undefined> => {
+  await ensureReady();
+  if (keepId === mergeId) return undefined;
+  const [keep, other] = await Promise.all([repository.getWord(keepId), repository.getWord(mergeId)]);
+  if (!keep || !other) return undefined;
+
+  const history = hasBetterHistory(keep, other) ? keep : other;
+  const progress = Object.fromEntries(PROGRESS_FIELDS.map(key => [key, history[key]]));
+  const merged: WordEntry = {
+    ...other,
+    ...Object.fromEntries(Object.entries(keep).filter(([, value]) => value !== undefined && value !== '')),
+    ...progress,
+    addedAt: Math.min(keep.addedAt, other.addedAt),
+    variants: mergeForms(keep.word, [other.word], keep.variants, other.variants),
+    family: mergeForms(keep.word, keep.family, other.family),
+    synonyms: mergeForms(keep.word, keep.synonyms, other.synonyms),
+    antonyms: mergeForms(keep.word, keep.antonyms, other.antonyms),
+    collocations: mergeForms(keep.word, keep.collocations, other.collocations),
+    deck: keep.deck ?? other.deck,
+    tags: mergeTags(keep.tags, other.tags),
+    id: keep.id,
+  } as WordEntry;
+  await repository.mergeWords(merged, other.id);
+
+  if (merged.todayImage !== other.todayImage) await deleteImage(other.todayImage);
+  const [kept, moved] = await Promise.all([getRecording(keep.id), getRecording(other.id)]);
+  if (moved) {
+    if (!kept) await saveRecording({ ...moved, wordId: keep.id });
+    await deleteRecording(other.id);
+  }
+  return merged;
+};
+
+// --- Pet ---
+
+export const INITIAL_PET: PetState = {
   name: 'Pika',
   stage: PetStage.EGG,
   xp: 0,
@@ -47,59 +428,218 @@ const INITIAL_PET: PetState = {
   dailyQuoteDate: '',
   isTraveling: false,
   postcardCollection: [],
-  imageUrls: {} 
-};
-
-export const getPetState = (): PetState => {
-  const data = localStorage.getItem(KEYS.PET);
-  if (data) {
-      const parsed = JSON.parse(data);
-      if (!parsed.imageUrls) parsed.imageUrls = {};
-      if (parsed.stage === PetStage.EGG) {
-         delete parsed.imageUrls[0];
-      }
-      return parsed;
+  imageUrls: {}
+};
+
+const collectPetImageRefs = (pet: PetState) => [...Object.values(pet.imageUrls), ...pet.postcardCollection].filter(isImageRef);
+
+export const getPetState = async (): Promise<PetState> => {
+  await ensureReady();
+  const stored = await repository.getPet();
+  if (!stored) return INITIAL_PET;
+
+  const imageUrls: Record<number, string> = {};
+  for (const [stage, ref] of Object.entries(stored.imageUrls)) {
+    const url = await resolveImage(ref);
+    if (url) imageUrls[Number(stage)] = url;
   }
-  return INITIAL_PET;
+  const postcards = await Promise.all(stored.postcardCollection.map(resolveImage));
+  return { ...stored, imageUrls, postcardCollection: postcards.filter((p): p is string => !!p) };
 };
 
-export const savePetState = (pet: PetState) => {
-  try {
-      localStorage.setItem(KEYS.PET, JSON.stringify(pet));
-  } catch (e) {
-      const slimPet = { ...pet, imageUrls: {} };
-      localStorage.setItem(KEYS.PET, JSON.stringify(slimPet));
+// Pet saves are chained so image cleanup never races a newer write
+let petWrites: Promise<void> = Promise.resolve();
+
+export const savePetState = (pet: PetState): Promise<void> => {
+  const write = petWrites.then(() => writePetState(pet));
+  petWrites = write.catch(() => undefined);
+  return write;
+};
+
+const writePetState = async (pet: PetState) => {
+  await ensureReady();
+  const imageUrls: Record<number, string> = {};
+  for (const [stage, src] of Object.entries(pet.imageUrls)) {
+    imageUrls[Number(stage)] = await storeImage(src);
   }
+  const postcardCollection = await Promise.all(pet.postcardCollection.map(storeImage));
+  const next: PetState = { ...pet, imageUrls, postcardCollection };
+
+  const previous = await repository.getPet();
+  await repository.putPet(next);
+
+  // Drop sprites that are no longer referenced, e.g. after starting a new generation
+  if (previous) {
+    const kept = new Set(collectPetImageRefs(next));
+    await Promise.all(collectPetImageRefs(previous).filter(ref => !kept.has(ref)).map(deleteImage));
+  }
+};
+
+// --- Review session ---
+
+export const getActiveSession = async (): Promise<ActiveReviewSession | undefined> => {
+  await ensureReady();
+  return repository.getMeta<ActiveReviewSession>(META_KEYS.ACTIVE_SESSION);
+};
+
+export const saveActiveSession = async (session: ActiveReviewSession) => {
+  await ensureReady();
+  await repository.putMeta(META_KEYS.ACTIVE_SESSION, { ...session, updatedAt: Date.now() });
 };
 
-export const getDailyStats = (): DailyStats => {
+export const discardActiveSession = async () => {
+  await ensureReady();
+  await repository.deleteMeta(META_KEYS.ACTIVE_SESSION);
+};
+
+// --- Bulk import queue ---
+
+export const getImportQueue = async (): Promise<EnrichmentJob[]> => {
+  await ensureReady();
+  return (await repository.getMeta<EnrichmentJob[]>(META_KEYS.IMPORT_QUEUE)) || [];
+};
+
+export const saveImportQueue = async (jobs: EnrichmentJob[]) => {
+  await ensureReady();
+  await repository.putMeta(META_KEYS.IMPORT_QUEUE, jobs);
+};
+
+/**
+ * Closes the session and pays its XP in one write, so a reload or a double
+ * tap can't grant it twice. Resolves to the XP actually granted. Queued behind
+ * pet saves so an older pending save can't overwrite the new total.
+ */
+export const finishActiveSession = (sessionId: string, xp: number): Promise<number> => {
+  const run = petWrites.then(async () => {
+    await ensureReady();
+    return (await repository.closeSession(META_KEYS.ACTIVE_SESSION, sessionId, xp)) ? xp : 0;
+  });
+  petWrites = run.then(() => undefined, () => undefined);
+  return run;
+};
+
+// --- Stats ---
+
+export const getDailyStats = async (): Promise<DailyStats> => {
+  await ensureReady();
   const today = getTodayStr();
-  const data = localStorage.getItem(KEYS.STATS);
-  if (data) {
-    const stats: DailyStats = JSON.parse(data);
-    if (stats.date === today) return stats;
-  }
-  return { date: today, wordsAdded: 0, reviewSessionDone: false };
+  const stats = await repository.getStats(today);
+  return stats || { date: today, wordsAdded: 0, reviewSessionDone: false };
+};
+
+// Every day's record, oldest first
+export const getStatsHistory = async (): Promise<DailyStats[]> => {
+  await ensureReady();
+  const all = await repository.getAllStats();
+  return all.sort((a, b) => a.date.localeCompare(b.date));
 };
 
-export const updateDailyStats = (updates: Partial<DailyStats>) => {
-  const current = getDailyStats();
+export const updateDailyStats = async (updates: Partial<DailyStats>) => {
+  const current = await getDailyStats();
   const updated = { ...current, ...updates };
-  localStorage.setItem(KEYS.STATS, JSON.stringify(updated));
+  await repository.putStats(updated);
   return updated;
 };
 
-const INTERVALS = [1, 3, 7, 14, 30];
+// --- Settings ---
 
-export const calculateNextReview = (currentLevel: number, wasCorrect: boolean): { level: number, date: number } => {
-  if (!wasCorrect) {
-    return { level: 0, date: Date.now() }; 
+export const DEFAULT_SETTINGS: AppSettings = {
+  targetRetention: DEFAULT_TARGET_RETENTION,
+  targetLanguage: DEFAULT_TARGET_LANGUAGE,
+  nativeLanguage: DEFAULT_NATIVE_LANGUAGE,
+  imageRefresh: 'weekly',
+  brainGymMode: 'mixed',
+  saveRecordings: false,
+  dailyNewLimit: 10,
+  dailyReviewLimit: 100,
+  ttsVoices: {},
+  ttsRate: 0.9,
+  ttsPitch: 1,
+  speakDefinition: false,
+  speakContext: false,
+  suggestTags: true,
+  reviewDeck: '',
+};
+
+export const getSettings = async (): Promise<AppSettings> => {
+  await ensureReady();
+  const stored = await repository.getMeta<Partial<AppSettings>>(META_KEYS.SETTINGS);
+  return { ...DEFAULT_SETTINGS, ...stored };
+};
+
+export const saveSettings = async (updates: Partial<AppSettings>) => {
+  const updated = { ...(await getSettings()), ...updates };
+  updated.targetRetention = clampRetention(updated.targetRetention);
+  await repository.putMeta(META_KEYS.SETTINGS, updated);
+  return updated;
+};
+
+// --- Full export / import ---
+
+/**
+ * Everything the app persists. Image fields hold refs, with the blobs they point at in `images`.
+ */
+export interface StorageExport {
+  schemaVersion: number;
+  words: WordEntry[];
+  pet?: PetState;
+  stats: DailyStats[];
+  settings: AppSettings;
+  images: Record<string, Blob>;
+  reviewEvents: ReviewEvent[];
+  reviewDigests: ReviewDigest[];
+  lookups: CachedLookup[];
+  cardImages: CachedCardImage[];
+  recordings: WordRecording[];
+}
+
+const collectImageRefs = (words: WordEntry[], pet?: PetState) =>
+  [...words.map(w => w.todayImage), ...(pet ? collectPetImageRefs(pet) : [])].filter(isImageRef);
+
+export const exportAllData = async (): Promise<StorageExport> => {
+  await ensureReady();
+  const [words, pet, stats, settings, reviewEvents, reviewDigests, lookups, cardImages, recordings] = await Promise.all([
+    repository.getAllWords(),
+    repository.getPet(),
+    repository.getAllStats(),
+    getSettings(),
+    repository.getAllReviewEvents(),
+    repository.getAllReviewDigests(),
+    repository.getAllLookups(),
+    repository.getAllCardImages(),
+    repository.getAllRecordings(),
+  ]);
+  const images: Record<string, Blob> = {};
+  for (const ref of collectImageRefs(words, pet)) {
+    const blob = await repository.getImage(ref);
+    if (blob) images[ref] = blob;
   }
-  
-  const nextLevel = Math.min(currentLevel + 1, INTERVALS.length);
-  const daysToAdd = INTERVALS[Math.max(0, nextLevel - 1)];
-  const nextDate = new Date();
-  nextDate.setDate(nextDate.getDate() + daysToAdd);
-  
-  return { level: nextLevel, date: nextDate.getTime() };
+  return { schemaVersion: CURRENT_SCHEMA_VERSION, words, pet, stats, settings, images, reviewEvents, reviewDigests, lookups, cardImages, recordings };
+};
+
+/**
+ * Swaps in a complete data set, review log, caches and recordings included, in
+ * one transaction, then deletes image blobs nothing points at anymore.
+ */
+export const replaceAllData = async (data: Omit<StorageExport, 'schemaVersion'>) => {
+  await ensureReady();
+  await repository.writeSnapshot(
+    {
+      words: data.words,
+      pet: data.pet,
+      stats: data.stats,
+      images: data.images,
+      meta: { [META_KEYS.SETTINGS]: data.settings },
+      reviewEvents: data.reviewEvents,
+      reviewDigests: data.reviewDigests,
+      lookups: data.lookups,
+      cardImages: data.cardImages,
+      recordings: data.recordings,
+    },
+    { replace: true }
+  );
+  forgetRecordingUrls();
+  const referenced = new Set(collectImageRefs(data.words, data.pet));
+  const stored = await repository.getImageKeys();
+  await Promise.all(stored.filter(key => !referenced.has(key)).map(deleteImage));
 };
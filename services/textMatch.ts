@@ -0,0 +1,135 @@
+
+/**
+ * Helpers for grading typed answers against a target word.
+ */
+
+/**
+ * Lower-cased, trimmed, single-spaced. With `stripAccents`, "Café" and "cafe" compare equal.
+ */
+export const normalizeAnswer = (text: string, stripAccents = false) => {
+  let out = text.normalize('NFKC').trim().replace(/\s+/g, ' ').toLowerCase();
+  if (stripAccents) out = out.normalize('NFD').replace(/[\u0300-\u036f]/g, '').normalize('NFC');
+  return out;
+};
+
+/**
+ * Levenshtein distance over code points.
+ */
+export const editDistance = (a: string, b: string) => {
+  const s = Array.from(a);
+  const t = Array.from(b);
+  let prev = Array.from({ length: t.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= s.length; i++) {
+    const row = [i];
+    for (let j = 1; j <= t.length; j++) {
+      row[j] = Math.min(prev[j] + 1, row[j - 1] + 1, prev[j - 1] + (s[i - 1] === t[j - 1] ? 0 : 1));
+    }
+    prev = row;
+  }
+  return prev[t.length];
+};
+
+// Typos allowed before an answer stops counting as "nearly right"
+export const typoTolerance = (target: string) => {
+  const length = Array.from(target).length;
+  if (length <= 3) return 0;
+  if (length <= 7) return 1;
+  return 2;
+};
+
+export type LetterStatus = 'ok' | 'wrong' | 'missing' | 'extra';
+
+export interface LetterDiff {
+  char: string;
+  status: LetterStatus; // 'missing' chars come from the target, the rest from the answer
+}
+
+/**
+ * Aligns an answer against the target letter by letter, for highlighting
+ * spelling mistakes. Compares case-insensitively but keeps the typed case.
+ */
+export const diffLetters = (given: string, target: string): LetterDiff[] => {
+  const s = Array.from(given.trim());
+  const t = Array.from(target.trim());
+  const same = (i: number, j: number) => s[i].toLowerCase() === t[j].toLowerCase();
+
+  const dist: number[][] = Array.from({ length: s.length + 1 }, (_, i) =>
+    Array.from({ length: t.length + 1 }, (_, j) => (i === 0 ? j : j === 0 ? i : 0))
+  );
+  for (let i = 1; i <= s.length; i++) {
+    for (let j = 1; j <= t.length; j++) {
+      dist[i][j] = Math.min(dist[i - 1][j] + 1, dist[i][j - 1] + 1, dist[i - 1][j - 1] + (same(i - 1, j - 1) ? 0 : 1));
+    }
+  }
+
+  // Walk back from the end, preferring matches and substitutions
+  const out: LetterDiff[] = [];
+  let i = s.length;
+  let j = t.length;
+  while (i > 0 || j > 0) {
+    if (i > 0 && j > 0 && dist[i][j] === dist[i - 1][j - 1] + (same(i - 1, j - 1) ? 0 : 1)) {
+      out.push({ char: s[i - 1], status: same(i - 1, j - 1) ? 'ok' : 'wrong' });
+      i--; j--;
+    } else if (i > 0 && dist[i][j] === dist[i - 1][j] + 1) {
+      out.push({ char: s[i - 1], status: 'extra' });
+      i--;
+    } else {
+      out.push({ char: t[j - 1], status: 'missing' });
+      j--;
+    }
+  }
+  return out.reverse();
+};
+
+export type WordMatchStatus = 'ok' | 'close' | 'missed';
+
+export interface WordMatch {
+  word: string; // Target token as written
+  status: WordMatchStatus;
+  heard?: string; // What it was recognized as, when not an exact match
+}
+
+const MATCH_COST: Record<WordMatchStatus, number> = { ok: 0, close: 0.5, missed: 1 };
+
+const compareWords = (heard: string, target: string): WordMatchStatus => {
+  const a = normalizeAnswer(heard, true);
+  const b = normalizeAnswer(target, true);
+  if (a === b) return 'ok';
+  return editDistance(a, b) <= typoTolerance(b) ? 'close' : 'missed';
+};
+
+/**
+ * Aligns spoken tokens against target tokens, tolerating dropped, extra and
+ * misheard words. Returns one entry per target token.
+ */
+export const alignWords = (heard: string[], target: string[]): WordMatch[] => {
+  const cost: number[][] = Array.from({ length: heard.length + 1 }, (_, i) =>
+    Array.from({ length: target.length + 1 }, (_, j) => (i === 0 ? j : j === 0 ? i : 0))
+  );
+  for (let i = 1; i <= heard.length; i++) {
+    for (let j = 1; j <= target.length; j++) {
+      cost[i][j] = Math.min(
+        cost[i - 1][j] + 1,
+        cost[i][j - 1] + 1,
+        cost[i - 1][j - 1] + MATCH_COST[compareWords(heard[i - 1], target[j - 1])]
+      );
+    }
+  }
+
+  const out: WordMatch[] = [];
+  let i = heard.length;
+  let j = target.length;
+  while (j > 0) {
+    const status = i > 0 ? compareWords(heard[i - 1], target[j - 1]) : 'missed';
+    if (i > 0 && status !== 'missed' && cost[i][j] === cost[i - 1][j - 1] + MATCH_COST[status]) {
+      out.push({ word: target[j - 1], status, heard: status === 'ok' ? undefined : heard[i - 1] });
+      i--; j--;
+    } else if (i > 0 && cost[i][j] === cost[i - 1][j] + 1) {
+      i--; // Extra spoken word
+    } else {
+      out.push({ word: target[j - 1], status: 'missed', heard: i > 0 && cost[i][j] === cost[i - 1][j - 1] + 1 ? heard[--i] : undefined });
+      j--;
+    }
+  }
+  return out.reverse();
+};
@@ -0,0 +1,234 @@
+
+import { GoogleGenAI } from '@google/genai';
+
+/**
+ * 文本模型适配层：queryDictionary / generatePetReaction 只和 TextProvider 打交道，
+ * 不关心背后是 OpenAI 兼容接口、Gemini SDK 还是本地 Ollama。
+ */
+export type TextProviderId = 'openai' | 'gemini' | 'ollama';
+
+export interface TextMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+export interface TextProviderCapabilities {
+  jsonMode: boolean; // Can force the model to emit a JSON object
+  streaming: boolean; // Can report partial output through onToken
+}
+
+export interface TextCompletionOptions {
+  json?: boolean;
+  temperature?: number;
+  signal?: AbortSignal;
+  onToken?: (chunk: string) => void; // Ignored by providers without streaming
+}
+
+export interface TextProvider {
+  id: TextProviderId;
+  label: string;
+  capabilities: TextProviderCapabilities;
+  requiresKey: boolean;
+  complete(messages: TextMessage[], options?: TextCompletionOptions): Promise<string>;
+}
+
+export interface TextProviderConfig {
+  apiKey: string;
+  model: string;
+  baseUrl: string; // Empty means the provider's own default
+  jsonMode: boolean; // Lets deployments turn off response_format for models that reject it
+}
+
+export const TEXT_PROVIDER_IDS: TextProviderId[] = ['openai', 'gemini', 'ollama'];
+
+export const DEFAULT_TEXT_BASE_URLS: Record<TextProviderId, string> = {
+  openai: '/api/proxy/text',
+  gemini: '',
+  ollama: 'http://localhost:11434',
+};
+
+const ensureOk = async (response: Response, url: string, model: string) => {
+  if (!response.ok) {
+    const errorBody = await response.text();
+    throw new Error(`[${response.status}] 请求失败。地址: ${url} 模型: ${model}。 错误详情: ${errorBody.substring(0, 200)}`);
+  }
+};
+
+/**
+ * Reads a streamed body line by line, handing each non-empty line to `onLine`.
+ */
+const readLines = async (response: Response, onLine: (line: string) => void) => {
+  const reader = response.body!.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    buffer += decoder.decode(value, { stream: true });
+    const lines = buffer.split('\n');
+    buffer = lines.pop() || '';
+    lines.map(l => l.trim()).filter(Boolean).forEach(onLine);
+  }
+  if (buffer.trim()) onLine(buffer.trim());
+};
+
+/**
+ * OpenAI 兼容格式 (/v1/chat/completions)，GMI、MiniMax 等都走这里
+ */
+const createOpenAIProvider = (config: TextProviderConfig): TextProvider => ({
+  id: 'openai',
+  label: 'OpenAI-compatible',
+  capabilities: { jsonMode: config.jsonMode, streaming: true },
+  requiresKey: true,
+  async complete(messages, options = {}) {
+    if (!config.apiKey) throw new Error("缺少 TEXT_API_KEY，请检查 Vercel 环境变量");
+    const url = `${config.baseUrl || DEFAULT_TEXT_BASE_URLS.openai}/v1/chat/completions`;
+    const stream = !!options.onToken;
+
+    const payload: any = {
+      model: config.model,
+      messages,
+      temperature: options.temperature ?? 0.7,
+      stream,
+    };
+    // MiniMax 或某些模型不支持 response_format，可通过 TEXT_API_JSON_MODE=false 关闭
+    if (options.json && config.jsonMode) {
+      payload.response_format = { type: "json_object" };
+    }
+
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${config.apiKey}`
+      },
+      body: JSON.stringify(payload),
+      signal: options.signal,
+    });
+    await ensureOk(response, url, config.model);
+
+    if (!stream) {
+      const data = await response.json();
+      return data.choices?.[0]?.message?.content ?? '';
+    }
+
+    let content = '';
+    await readLines(response, line => {
+      if (!line.startsWith('data:')) return;
+      const data = line.slice(5).trim();
+      if (data === '[DONE]') return;
+      const chunk = JSON.parse(data).choices?.[0]?.delta?.content;
+      if (chunk) {
+        content += chunk;
+        options.onToken!(chunk);
+      }
+    });
+    return content;
+  },
+});
+
+/**
+ * Google Gemini，通过 @google/genai SDK
+ */
+const createGeminiProvider = (config: TextProviderConfig): TextProvider => {
+  let client: GoogleGenAI | null = null;
+  const getClient = () => {
+    if (!config.apiKey) throw new Error("缺少 TEXT_API_KEY (Gemini API Key)");
+    if (!client) {
+      client = new GoogleGenAI({
+        apiKey: config.apiKey,
+        ...(config.baseUrl ? { httpOptions: { baseUrl: config.baseUrl } } : {}),
+      });
+    }
+    return client;
+  };
+
+  return {
+    id: 'gemini',
+    label: 'Google Gemini',
+    capabilities: { jsonMode: true, streaming: true },
+    requiresKey: true,
+    async complete(messages, options = {}) {
+      const system = messages.filter(m => m.role === 'system').map(m => m.content).join('\n');
+      const params = {
+        model: config.model,
+        contents: messages
+          .filter(m => m.role !== 'system')
+          .map(m => ({ role: m.role === 'assistant' ? 'model' : 'user', parts: [{ text: m.content }] })),
+        config: {
+          ...(system ? { systemInstruction: system } : {}),
+          ...(options.json ? { responseMimeType: 'application/json' } : {}),
+          temperature: options.temperature ?? 0.7,
+          abortSignal: options.signal,
+        },
+      };
+
+      if (!options.onToken) {
+        const response = await getClient().models.generateContent(params);
+        return response.text ?? '';
+      }
+
+      let content = '';
+      for await (const chunk of await getClient().models.generateContentStream(params)) {
+        const text = chunk.text;
+        if (text) {
+          content += text;
+          options.onToken(text);
+        }
+      }
+      return content;
+    },
+  };
+};
+
+/**
+ * 本地 Ollama 风格服务 (/api/chat)，无需密钥
+ */
+const createOllamaProvider = (config: TextProviderConfig): TextProvider => ({
+  id: 'ollama',
+  label: 'Local (Ollama)',
+  capabilities: { jsonMode: true, streaming: true },
+  requiresKey: false,
+  async complete(messages, options = {}) {
+    const url = `${config.baseUrl || DEFAULT_TEXT_BASE_URLS.ollama}/api/chat`;
+    const stream = !!options.onToken;
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        model: config.model,
+        messages,
+        stream,
+        ...(options.json ? { format: 'json' } : {}),
+        options: { temperature: options.temperature ?? 0.7 },
+      }),
+      signal: options.signal,
+    });
+    await ensureOk(response, url, config.model);
+
+    if (!stream) {
+      const data = await response.json();
+      return data.message?.content ?? '';
+    }
+
+    let content = '';
+    await readLines(response, line => {
+      const chunk = JSON.parse(line).message?.content;
+      if (chunk) {
+        content += chunk;
+        options.onToken!(chunk);
+      }
+    });
+    return content;
+  },
+});
+
+const FACTORIES: Record<TextProviderId, (config: TextProviderConfig) => TextProvider> = {
+  openai: createOpenAIProvider,
+  gemini: createGeminiProvider,
+  ollama: createOllamaProvider,
+};
+
+export const isTextProviderId = (id: string): id is TextProviderId => (TEXT_PROVIDER_IDS as string[]).includes(id);
+
+export const createTextProvider = (id: TextProviderId, config: TextProviderConfig): TextProvider => FACTORIES[id](config);
@@ -0,0 +1,155 @@
+/**
+ * 语音合成适配层：复习卡片只通过 speechOutput 调用 TtsProvider。
+ * 浏览器引擎直接朗读 (live)；服务端引擎返回音频片段 (clip)，可以按单词缓存。
+ */
+export type TtsProviderId = 'browser' | 'openai';
+
+export interface TtsVoice {
+  id: string;
+  label: string;
+  locale?: string; // Unset for voices that speak any language
+}
+
+export interface TtsRequest {
+  locale: string;
+  voice?: string; // TtsVoice.id; the engine's default when unset
+  rate: number; // 1 = normal speed
+  pitch: number; // 1 = normal pitch
+  signal?: AbortSignal;
+}
+
+interface BaseTtsProvider {
+  id: TtsProviderId;
+  label: string;
+  requiresKey: boolean;
+  supportsPitch: boolean;
+  listVoices(locale: string): Promise<TtsVoice[]>;
+}
+
+export interface LiveTtsProvider extends BaseTtsProvider {
+  kind: 'live';
+  // Resolves when speech ends or is cancelled
+  speak(text: string, request: TtsRequest): Promise<void>;
+}
+
+export interface ClipTtsProvider extends BaseTtsProvider {
+  kind: 'clip';
+  // Audio at normal speed; rate is applied on playback so one clip serves every speed
+  synthesize(text: string, request: Omit<TtsRequest, 'rate' | 'pitch'>): Promise<Blob>;
+}
+
+export type TtsProvider = LiveTtsProvider | ClipTtsProvider;
+
+export interface TtsProviderConfig {
+  apiKey: string;
+  model: string;
+  baseUrl: string;
+}
+
+export const TTS_PROVIDER_IDS: TtsProviderId[] = ['browser', 'openai'];
+
+export const DEFAULT_TTS_BASE_URLS: Record<TtsProviderId, string> = {
+  browser: '',
+  openai: 'https://api.openai.com',
+};
+
+// Chrome fills getVoices() asynchronously; wait briefly for voiceschanged
+const VOICES_TIMEOUT_MS = 1500;
+
+const loadBrowserVoices = (): Promise<SpeechSynthesisVoice[]> =>
+  new Promise(resolve => {
+    if (typeof speechSynthesis === 'undefined') return resolve([]);
+    const voices = speechSynthesis.getVoices();
+    if (voices.length) return resolve(voices);
+    const done = () => {
+      clearTimeout(timer);
+      speechSynthesis.removeEventListener('voiceschanged', done);
+      resolve(speechSynthesis.getVoices());
+    };
+    const timer = setTimeout(done, VOICES_TIMEOUT_MS);
+    speechSynthesis.addEventListener('voiceschanged', done);
+  });
+
+// "en-US" matches "en-US" and "en-GB"; voices for other languages are left out
+const sameLanguage = (a: string, b: string) => a.split(/[-_]/)[0].toLowerCase() === b.split(/[-_]/)[0].toLowerCase();
+
+/**
+ * Web Speech API (speechSynthesis)
+ */
+const createBrowserProvider = (): LiveTtsProvider => ({
+  id: 'browser',
+  label: 'Browser voices',
+  kind: 'live',
+  requiresKey: false,
+  supportsPitch: true,
+  async listVoices(locale) {
+    const voices = await loadBrowserVoices();
+    return voices
+      .filter(v => sameLanguage(v.lang, locale))
+      .map(v => ({ id: v.voiceURI, label: `${v.name} (${v.lang})`, locale: v.lang }));
+  },
+  async speak(text, { locale, voice, rate, pitch, signal }) {
+    if (typeof speechSynthesis === 'undefined' || signal?.aborted) return;
+    const u = new SpeechSynthesisUtterance(text);
+    u.lang = locale;
+    u.rate = rate;
+    u.pitch = pitch;
+    if (voice) {
+      const match = (await loadBrowserVoices()).find(v => v.voiceURI === voice);
+      if (match) u.voice = match;
+      if (signal?.aborted) return;
+    }
+    await new Promise<void>(resolve => {
+      const onAbort = () => {
+        speechSynthesis.cancel();
+        resolve();
+      };
+      u.onend = () => { signal?.removeEventListener('abort', onAbort); resolve(); };
+      u.onerror = () => { signal?.removeEventListener('abort', onAbort); resolve(); };
+      signal?.addEventListener('abort', onAbort, { once: true });
+      speechSynthesis.speak(u);
+    });
+  },
+});
+
+const OPENAI_VOICES = ['alloy', 'echo', 'fable', 'onyx', 'nova', 'shimmer'];
+
+/**
+ * OpenAI 兼容格式 (/v1/audio/speech)
+ */
+const createOpenAITtsProvider = (config: TtsProviderConfig): ClipTtsProvider => ({
+  id: 'openai',
+  label: 'OpenAI-compatible speech',
+  kind: 'clip',
+  requiresKey: true,
+  supportsPitch: false,
+  async listVoices() {
+    return OPENAI_VOICES.map(id => ({ id, label: id[0].toUpperCase() + id.slice(1) }));
+  },
+  async synthesize(text, { voice, signal }) {
+    if (!config.apiKey) throw new Error("缺少 TTS_API_KEY");
+    const response = await fetch(`${config.baseUrl}/v1/audio/speech`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', 'Authorization': `Bearer ${config.apiKey}` },
+      body: JSON.stringify({ model: config.model, input: text, voice: voice && OPENAI_VOICES.includes(voice) ? voice : OPENAI_VOICES[0], response_format: 'mp3' }),
+      signal,
+    });
+    if (!response.ok) {
+      const err = await response.text();
+      throw new Error(`语音合成失败 [${response.status}]: ${err.substring(0, 200)}`);
+    }
+    return response.blob();
+  },
+});
+
+const FACTORIES: Record<TtsProviderId, (config: TtsProviderConfig) => TtsProvider> = {
+  browser: createBrowserProvider,
+  openai: createOpenAITtsProvider,
+};
+
+export const isTtsProviderId = (id: string): id is TtsProviderId => (TTS_PROVIDER_IDS as string[]).includes(id);
+
+export const createTtsProvider = (id: TtsProviderId, config: TtsProviderConfig): TtsProvider => FACTORIES[id](config);
+
+// Always available, used when a clip provider fails
+export const browserTtsProvider = createBrowserProvider();
@@ -0,0 +1,62 @@
+
+import { WordEntry } from '../types';
+
+/**
+ * Entries are stored under their lemma ("run"); the surface forms a learner
+ * looked up ("ran", "running") are its variants, and derived lemmas
+ * ("happy" / "happiness") are linked through `family`.
+ */
+
+const normalize = (form: string) => form.trim().toLowerCase();
+
+/**
+ * Lower-cased lemma plus variants.
+ */
+export const wordForms = (w: Pick<WordEntry, 'word' | 'variants'>) =>
+  [w.word, ...(w.variants || [])].map(normalize);
+
+export const findWordEntry = (words: WordEntry[], language: string, form: string) => {
+  const needle = normalize(form);
+  return words.find(w => w.language === language && wordForms(w).includes(needle));
+};
+
+/**
+ * Case-insensitive union that keeps the first spelling seen and leaves out `exclude`.
+ */
+export const mergeForms = (exclude: string, ...lists: (string[] | undefined)[]): string[] | undefined => {
+  const seen = new Set([normalize(exclude)]);
+  const merged: string[] = [];
+  lists.flat().forEach(form => {
+    if (!form || seen.has(normalize(form))) return;
+    seen.add(normalize(form));
+    merged.push(form.trim());
+  });
+  return merged.length ? merged : undefined;
+};
+
+/**
+ * Splits words into families: entries end up together when one lists the
+ * other in `family`. Groups keep the order of their first member, and members
+ * keep their relative order.
+ */
+export const groupWordFamilies = (words: WordEntry[]): WordEntry[][] => {
+  const parent = words.map((_, i) => i);
+  const find = (i: number): number => (parent[i] === i ? i : (parent[i] = find(parent[i])));
+
+  const byForm = new Map<string, number>();
+  words.forEach((w, i) => wordForms(w).forEach(form => byForm.set(`${w.language}:${form}`, i)));
+  words.forEach((w, i) => {
+    (w.family || []).forEach(relative => {
+      const j = byForm.get(`${w.language}:${normalize(relative)}`);
+      if (j !== undefined) parent[find(j)] = find(i);
+    });
+  });
+
+  const groups = new Map<number, WordEntry[]>();
+  words.forEach((w, i) => {
+    const root = find(i);
+    groups.set(root, [...(groups.get(root) || []), w]);
+  });
+  // Map preserves insertion order, i.e. the position of each group's first member
+  return Array.from(groups.values());
+};
@@ -1,10 +1,13 @@
+import { LanguagePair } from './services/languages';
 
 export enum AppMode {
   HOME = 'HOME',
   DICTIONARY = 'DICTIONARY',
   REVIEW = 'REVIEW',
   PET_PROFILE = 'PET_PROFILE',
-  NOTEBOOK = 'NOTEBOOK'
+  NOTEBOOK = 'NOTEBOOK',
+  STATS = 'STATS',
+  AUDIO_LESSON = 'AUDIO_LESSON'
 }
 
 export enum PetStage {
@@ -15,30 +18,126 @@ export enum PetStage {
   DEPARTED = 4
 }
 
-export type ReviewMode = 'passive' | 'active';
+// How a single Brain Gym card is asked: self-graded recall, fill-in-the-blank, pick-one, spell-what-you-hear, or say-it-aloud
+export type CardMode = 'active' | 'cloze' | 'choice' | 'dictation' | 'speaking';
+
+// 'mixed' picks a CardMode per card
+export type ReviewMode = 'passive' | CardMode | 'mixed';
+
+export enum ReviewGrade {
+  AGAIN = 1,
+  HARD = 2,
+  GOOD = 3,
+  EASY = 4
+}
 
 export interface WordEntry {
   id: string;
   word: string;
-  definition: string; // Basic meaning (English)
-  translation?: string; // Chinese meaning
+  language: string; // Target language code (ISO 639-1) this word was learned in
+  definition: string; // Basic meaning, in the target language
+  translation?: string; // Meaning in the learner's native language
   context: string; // Example sentence
   visualDescription?: string; // Scene description for image gen
+  partOfSpeech?: string; // Of the saved sense
+  ipa?: string; // Of the saved sense
+  senses?: WordSense[]; // Every sense the dictionary returned, including the saved one
+  variants?: string[]; // Inflected forms looked up and merged into this lemma ("ran", "running")
+  family?: string[]; // Derived lemmas sharing the root ("happiness" for "happy")
+  synonyms?: string[];
+  antonyms?: string[];
+  collocations?: string[];
+  deck?: string; // User-defined deck name; unset for words in no deck
+  tags?: string[]; // Free-form labels, lowercase
   addedAt: number; // Timestamp
   lastReviewedAt: number | null;
-  reviewLevel: number; // 0-5 for Spaced Repetition (Mastery)
+  reviewLevel: number; // 0-5 for Spaced Repetition (Mastery), derived from stability
   reviewCount: number; // NEW: Total number of times reviewed
   nextReviewDate: number; // Timestamp
+  ease: number; // SM-2 style ease factor, 1.3 - 3.0
+  stability: number; // Days until recall probability drops to ~90%
+  lapses: number; // Times the word was forgotten after being learned
   todayImage?: string; // URL/Base64 for today's generated image
   todayImageDate?: string; // YYYY-MM-DD
 }
 
+// Schedule fields as they were before an answer, kept on the event so it can be undone
+export type ReviewSnapshot = Pick<WordEntry, 'reviewLevel' | 'reviewCount' | 'nextReviewDate' | 'lastReviewedAt' | 'ease' | 'stability' | 'lapses'>;
+
+/**
+ * One answer (or passive listen) in the append-only review log.
+ */
+export interface ReviewEvent {
+  id: string;
+  wordId: string;
+  timestamp: number;
+  mode: Exclude<ReviewMode, 'mixed'>;
+  grade?: ReviewGrade; // Absent for passive listens
+  responseMs?: number;
+  intervalBefore: number; // ms the word was scheduled for going in; 0 for a new word
+  intervalAfter: number; // ms until the next review after this answer
+  previous: ReviewSnapshot;
+}
+
+/**
+ * Per-day roll-up of review events that have aged out of the raw log.
+ */
+export interface ReviewDigest {
+  date: string; // YYYY-MM-DD
+  reviews: number;
+  passed: number; // Graded above AGAIN
+  byMode: Partial<Record<ReviewEvent['mode'], number>>;
+  byInterval: Record<string, { reviews: number; passed: number }>; // Keyed by intervalBucket(intervalBefore)
+}
+
+// A card of the current session that has been answered (or listened to)
+export interface SessionAnswer {
+  index: number; // Position in the session queue
+  wordId: string;
+  grade?: ReviewGrade;
+  eventId?: string; // Review log entry, for undo
+}
+
+/**
+ * The review session in progress, persisted so it survives reloads and navigation.
+ */
+export interface ActiveReviewSession {
+  id: string;
+  mode: ReviewMode;
+  wordIds: string[]; // Queue, including failed cards queued again
+  currentIndex: number;
+  answers: SessionAnswer[];
+  relearnSteps: Record<string, number>; // Times each word was failed and re-queued
+  startedAt: number;
+  updatedAt: number;
+  deck?: string; // Deck the queue was drawn from; unset for all decks
+}
+
+export type EnrichmentStatus = 'pending' | 'running' | 'done' | 'failed';
+
+/**
+ * One word of a bulk import, persisted until it is done so a reload resumes the batch.
+ */
+export interface EnrichmentJob {
+  id: string;
+  input: string;
+  hint?: string; // Optional example sentence or note from a CSV's second column
+  languages: LanguagePair; // Captured at enqueue time so a settings change doesn't move half a batch
+  tagTopics: boolean; // Likewise for AI topic tags
+  status: EnrichmentStatus;
+  attempts: number;
+  error?: string;
+  savedWord?: string;
+}
+
+export type PetMood = 'happy' | 'sleepy' | 'excited' | 'proud';
+
 export interface PetState {
   name: string;
   stage: PetStage;
   xp: number;
   cycle: number;
-  mood: 'happy' | 'sleepy' | 'excited' | 'proud';
+  mood: PetMood;
   lastInteraction: number;
   dailyQuote: string;
   dailyQuoteDate: string;
@@ -54,6 +153,80 @@ export interface DailyStats {
   reviewSessionDone: boolean;
 }
 
+// When a cached card image is regenerated: never, after a week, or only when the learner asks
+export type ImageRefreshPolicy = 'never' | 'weekly' | 'manual';
+
+// A generated card picture in the image cache, keyed by cardImageKey
+export interface CachedCardImage {
+  key: string;
+  word: string;
+  blob: Blob;
+  size: number;
+  createdAt: number;
+  lastUsedAt: number;
+}
+
+export interface AppSettings {
+  targetRetention: number; // Desired recall probability when a review comes due (0.7 - 0.97)
+  targetLanguage: string; // Language being learned, ISO 639-1
+  nativeLanguage: string; // Language translations are given in, ISO 639-1
+  imageRefresh: ImageRefreshPolicy;
+  brainGymMode: Exclude<ReviewMode, 'passive'>;
+  saveRecordings: boolean; // Keep the learner's voice from speaking drills for playback
+  dailyNewLimit: number; // Never-graded words introduced by Brain Gym per day
+  dailyReviewLimit: number; // Due reviews per day
+  ttsVoices: Record<string, string>; // Chosen voice id per language code; the engine default when missing
+  ttsRate: number; // 0.5 - 1.5
+  ttsPitch: number; // 0.5 - 1.5, ignored by engines without pitch control
+  speakDefinition: boolean; // Daily Listen also reads the definition aloud
+  speakContext: boolean; // Daily Listen also reads the example sentence aloud
+  suggestTags: boolean; // Tag new words with the AI's topic suggestions
+  reviewDeck: string; // Deck Daily Review and Brain Gym draw from; '' for all words
+}
+
+/**
+ * One meaning of a word. Polysemous words ("bank", "run") have several.
+ */
+export interface WordSense {
+  partOfSpeech?: string;
+  ipa?: string;
+  definition: string; // In the target language
+  translation?: string; // In the native language
+  example: string;
+  visualDescription?: string;
+}
+
+export interface DictionaryResult {
+  identifiedWord: string;
+  // The first sense, kept flat for callers that only need one meaning
+  definition: string;
+  translation?: string;
+  example: string;
+  visualDescription?: string;
+  senses?: WordSense[]; // Missing on lookups cached before senses existed
+  lemma?: string; // Dictionary form of identifiedWord; missing on older cached lookups
+  wordFamily?: string[];
+  synonyms?: string[];
+  antonyms?: string[];
+  collocations?: string[];
+  topics?: string[]; // Suggested topic tags ("travel", "business"); missing on older cached lookups
+}
+
+export interface PetReaction {
+  text: string;
+  mood: PetMood;
+}
+
+export type LookupSource = 'network' | 'cache' | 'offline-cache' | 'notebook';
+
+// A dictionary answer in the lookup cache, keyed by normalizeLookupKey
+export interface CachedLookup {
+  key: string;
+  result: DictionaryResult;
+  cachedAt: number;
+  lastUsedAt: number;
+}
+
 export interface ChatMessage {
   role: 'user' | 'assistant';
   text: string;
@@ -4,10 +4,18 @@ declare namespace NodeJS {
     readonly TEXT_API_KEY: string;
     readonly TEXT_API_BASE_URL: string;
     readonly TEXT_API_MODEL: string;
+    readonly TEXT_API_PROVIDER: string; // openai | gemini | ollama
+    readonly TEXT_API_JSON_MODE: string; // "false" disables response_format
     
     readonly IMAGE_API_KEY: string;
     readonly IMAGE_API_BASE_URL: string;
     readonly IMAGE_API_MODEL: string;
+    readonly IMAGE_API_PROVIDER: string; // seedream | openai
+
+    readonly TTS_API_KEY: string;
+    readonly TTS_API_BASE_URL: string;
+    readonly TTS_API_MODEL: string;
+    readonly TTS_API_PROVIDER: string; // browser | openai
     
     // Legacy/Fallbacks
     readonly API_KEY: string;
@@ -15,10 +15,18 @@ export default defineConfig(({ mode }) => {
       'process.env.TEXT_API_KEY': JSON.stringify(env.TEXT_API_KEY || ''),
       'process.env.TEXT_API_MODEL': JSON.stringify(env.TEXT_API_MODEL || ''),
       'process.env.TEXT_API_BASE_URL': JSON.stringify(env.TEXT_API_BASE_URL || ''),
+      'process.env.TEXT_API_PROVIDER': JSON.stringify(env.TEXT_API_PROVIDER || ''),
+      'process.env.TEXT_API_JSON_MODE': JSON.stringify(env.TEXT_API_JSON_MODE || ''),
 
       'process.env.IMAGE_API_KEY': JSON.stringify(env.IMAGE_API_KEY || ''),
       'process.env.IMAGE_API_MODEL': JSON.stringify(env.IMAGE_API_MODEL || 'seedream-4-0-250828'),
-      'process.env.IMAGE_API_BASE_URL': JSON.stringify(env.IMAGE_API_BASE_URL || '')
+      'process.env.IMAGE_API_BASE_URL': JSON.stringify(env.IMAGE_API_BASE_URL || ''),
+      'process.env.IMAGE_API_PROVIDER': JSON.stringify(env.IMAGE_API_PROVIDER || ''),
+
+      'process.env.TTS_API_KEY': JSON.stringify(env.TTS_API_KEY || ''),
+      'process.env.TTS_API_MODEL': JSON.stringify(env.TTS_API_MODEL || ''),
+      'process.env.TTS_API_BASE_URL': JSON.stringify(env.TTS_API_BASE_URL || ''),
+      'process.env.TTS_API_PROVIDER': JSON.stringify(env.TTS_API_PROVIDER || '')
     }
   };
 });